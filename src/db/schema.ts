@@ -1,10 +1,14 @@
-import { sqliteTable, text, integer, real } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, real, blob } from 'drizzle-orm/sqlite-core';
 
 // Families table (defined first to avoid circular reference)
 export const families = sqliteTable('families', {
   id: text('id').primaryKey(),
   name: text('name').notNull(),
   inviteCode: text('invite_code').notNull().unique(),
+  timezone: text('timezone'), // IANA name, e.g. Europe/Budapest
+  rawRetentionDays: integer('raw_retention_days').notNull().default(30), // full-resolution location points
+  trackRetentionDays: integer('track_retention_days').notNull().default(365), // compacted tracks
+  requireApproval: integer('require_approval', { mode: 'boolean' }).notNull().default(false), // joins and pairings wait for a parent
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
@@ -15,12 +19,23 @@ export const users = sqliteTable('users', {
   email: text('email').notNull().unique(),
   password: text('password').notNull(),
   displayName: text('display_name').notNull(),
-  role: text('role', { enum: ['parent', 'child'] }).notNull(),
+  role: text('role', { enum: ['parent', 'child', 'caregiver', 'guest'] }).notNull(),
   avatar: text('avatar'),
-  fcmToken: text('fcm_token'),
+  fcmToken: text('fcm_token'), // legacy single push target, used when the user has no device tokens
   familyId: text('family_id'),
   parentId: text('parent_id'),
   pairingCode: text('pairing_code').unique(),
+  timezone: text('timezone'), // overrides the family timezone
+  offlineAfterMinutes: integer('offline_after_minutes'), // children: location age that counts as offline; null uses the default
+  offlineSince: integer('offline_since', { mode: 'timestamp' }), // set by the offline watchdog
+  // Caregiver/guest access limits; unused for parents and children
+  allowedFeatures: text('allowed_features', { mode: 'json' }).$type<string[] | null>(),
+  accessSchedule: text('access_schedule', { mode: 'json' }).$type<{days: number[]; startTime: string; endTime: string} | null>(),
+  accessExpiresAt: integer('access_expires_at', { mode: 'timestamp' }),
+  invitedById: text('invited_by_id'), // who created the invite this user joined with
+  inviteId: text('invite_id'),
+  pendingApproval: integer('pending_approval', { mode: 'boolean' }).notNull().default(false), // waiting on a membership request
+  emailVerifiedAt: integer('email_verified_at', { mode: 'timestamp' }),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   lastSeen: integer('last_seen', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -38,7 +53,8 @@ export const locations = sqliteTable('locations', {
   heading: real('heading'),
   batteryLevel: integer('battery_level'),
   isCharging: integer('is_charging', { mode: 'boolean' }).default(false),
-  dwellTime: integer('dwell_time'),
+  dwellTime: integer('dwell_time'), // seconds; set on stay points by compaction
+  compacted: integer('compacted', { mode: 'boolean' }).default(false),
   timestamp: integer('timestamp', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
@@ -49,9 +65,84 @@ export const statusUpdates = sqliteTable('status_updates', {
   status: text('status', { enum: ['arrived', 'departed', 'safe', 'sos', 'none'] }).notNull(),
   latitude: real('latitude'),
   longitude: real('longitude'),
+  address: text('address'), // reverse geocoded
   timestamp: integer('timestamp', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// SOS sessions table (one open emergency per user until resolved)
+export const sosSessions = sqliteTable('sos_sessions', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  familyId: text('family_id'),
+  status: text('status', { enum: ['active', 'resolved'] }).notNull().default('active'),
+  latitude: real('latitude'),
+  longitude: real('longitude'),
+  locationIntervalSeconds: integer('location_interval_seconds').notNull(),
+  startedAt: integer('started_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+  resolvedById: text('resolved_by_id'),
+  resolutionNote: text('resolution_note'),
+});
+
+// SOS acknowledgements ("I've seen it / on my way")
+export const sosAcknowledgements = sqliteTable('sos_acknowledgements', {
+  id: text('id').primaryKey(),
+  sessionId: text('session_id').notNull(),
+  userId: text('user_id').notNull(),
+  message: text('message'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Guardians of a child besides the primary parent (users.parentId, who
+// always has every permission), each with what they may see and do
+export const guardianships = sqliteTable('guardianships', {
+  id: text('id').primaryKey(),
+  childId: text('child_id').notNull(),
+  guardianId: text('guardian_id').notNull(),
+  canViewLocation: integer('can_view_location', { mode: 'boolean' }).notNull().default(true),
+  canManageLimits: integer('can_manage_limits', { mode: 'boolean' }).notNull().default(false), // screen time, blocked apps/sites
+  canViewBrowsing: integer('can_view_browsing', { mode: 'boolean' }).notNull().default(false),
+  canReceiveSos: integer('can_receive_sos', { mode: 'boolean' }).notNull().default(true), // SOS and crash alerts
+  grantedById: text('granted_by_id').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Family invites. A code can be redeemed up to maxUses times until it expires
+// or is revoked; caregiver/guest invites carry the access limits they grant.
+export const familyInvites = sqliteTable('family_invites', {
+  id: text('id').primaryKey(),
+  familyId: text('family_id').notNull(),
+  code: text('code').notNull().unique(),
+  role: text('role', { enum: ['parent', 'child', 'caregiver', 'guest'] }).notNull(),
+  email: text('email'), // only this address can redeem the code
+  maxUses: integer('max_uses').notNull().default(1),
+  useCount: integer('use_count').notNull().default(0),
+  allowedFeatures: text('allowed_features', { mode: 'json' }).$type<string[] | null>(),
+  accessSchedule: text('access_schedule', { mode: 'json' }).$type<{days: number[]; startTime: string; endTime: string} | null>(),
+  accessExpiresAt: integer('access_expires_at', { mode: 'timestamp' }), // when a caregiver's/guest's access ends
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(), // when the code stops working
+  createdById: text('created_by_id').notNull(),
+  revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Join and pairing attempts waiting for a parent when the family requires
+// approval. The admission details are applied only once approved.
+export const membershipRequests = sqliteTable('membership_requests', {
+  id: text('id').primaryKey(),
+  familyId: text('family_id').notNull(),
+  userId: text('user_id').notNull(),
+  type: text('type', { enum: ['join', 'pair'] }).notNull(),
+  parentId: text('parent_id'), // the child's parent once admitted
+  invitedById: text('invited_by_id'),
+  inviteId: text('invite_id'),
+  status: text('status', { enum: ['pending', 'approved', 'rejected'] }).notNull().default('pending'),
+  decidedById: text('decided_by_id'),
+  decidedAt: integer('decided_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
 // Favorite places table
 export const favoritePlaces = sqliteTable('favorite_places', {
   id: text('id').primaryKey(),
@@ -88,12 +179,14 @@ export const geofences = sqliteTable('geofences', {
   name: text('name').notNull(),
   latitude: real('latitude').notNull(),
   longitude: real('longitude').notNull(),
-  radius: integer('radius').notNull().default(100), // meters (50-5000)
+  radius: integer('radius').notNull().default(100), // meters (50-5000); enclosing radius for polygons
   type: text('type', { enum: ['circle', 'polygon'] }).notNull().default('circle'),
+  polygon: text('polygon', { mode: 'json' }).$type<Array<{latitude: number; longitude: number}> | null>(), // closed ring, polygon type only
   color: text('color'),
   icon: text('icon'),
   notifyEnter: integer('notify_enter', { mode: 'boolean' }).default(true),
   notifyExit: integer('notify_exit', { mode: 'boolean' }).default(true),
+  dwellMinutes: integer('dwell_minutes'), // emit a dwell event after this long inside; null disables
   isActive: integer('is_active', { mode: 'boolean' }).default(true),
   schedule: text('schedule', { mode: 'json' }).$type<{days: number[]; startTime: string; endTime: string} | null>(),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
@@ -108,6 +201,7 @@ export const geofenceEvents = sqliteTable('geofence_events', {
   eventType: text('event_type', { enum: ['enter', 'exit', 'dwell'] }).notNull(),
   latitude: real('latitude').notNull(),
   longitude: real('longitude').notNull(),
+  address: text('address'), // reverse geocoded
   timestamp: integer('timestamp', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
@@ -207,13 +301,38 @@ export const crashEvents = sqliteTable('crash_events', {
   userId: text('user_id').notNull(),
   latitude: real('latitude').notNull(),
   longitude: real('longitude').notNull(),
+  address: text('address'), // reverse geocoded
   speed: real('speed'),
   impactForce: real('impact_force').notNull(), // G-force
   eventType: text('event_type', { enum: ['potential_crash', 'confirmed_crash', 'false_alarm'] }).notNull(),
   status: text('status', { enum: ['detected', 'user_ok', 'emergency_sent'] }).notNull().default('detected'),
-  emergencyContacts: text('emergency_contacts', { mode: 'json' }).$type<string[] | null>(),
+  emergencyContacts: text('emergency_contacts', { mode: 'json' }).$type<string[] | null>(), // IDs of alerted contacts
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
   respondedAt: integer('responded_at', { mode: 'timestamp' }),
+  escalateAt: integer('escalate_at', { mode: 'timestamp' }), // auto-escalate if still unanswered
+});
+
+// Crash event audit trail
+export const crashEventLogs = sqliteTable('crash_event_logs', {
+  id: text('id').primaryKey(),
+  crashEventId: text('crash_event_id').notNull(),
+  action: text('action', { enum: ['detected', 'user_ok', 'help_requested', 'countdown_expired', 'parents_notified', 'contact_alerted', 'contact_alert_failed', 'emergency_sent'] }).notNull(),
+  details: text('details', { mode: 'json' }).$type<Record<string, any> | null>(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Emergency contacts table
+export const emergencyContacts = sqliteTable('emergency_contacts', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  name: text('name').notNull(),
+  phone: text('phone'),
+  email: text('email'),
+  relationship: text('relationship'),
+  priority: integer('priority').notNull().default(0), // lower is alerted first
+  notifyOnCrash: integer('notify_on_crash', { mode: 'boolean' }).default(true),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
 // Location reminders table
@@ -257,12 +376,135 @@ export const drivingEvents = sqliteTable('driving_events', {
   timestamp: integer('timestamp', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
 });
 
+// Sessions table (one per logged-in device, holds the rotating refresh token)
+export const sessions = sqliteTable('sessions', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  refreshTokenHash: text('refresh_token_hash').notNull(),
+  deviceName: text('device_name'),
+  deviceId: text('device_id'), // devices.id when the app reported its device
+  userAgent: text('user_agent'),
+  ipAddress: text('ip_address'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  lastUsedAt: integer('last_used_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  revokedAt: integer('revoked_at', { mode: 'timestamp' }),
+});
+
+// Single-use tokens mailed for password resets and e-mail verification. Like
+// refresh tokens they are "<id>.<secret>" and only the hash is stored.
+export const authTokens = sqliteTable('auth_tokens', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  type: text('type', { enum: ['password_reset', 'email_verification'] }).notNull(),
+  tokenHash: text('token_hash').notNull(),
+  email: text('email').notNull(), // address the token was sent to
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  usedAt: integer('used_at', { mode: 'timestamp' }),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Devices an account is used on, identified by the app's install id
+export const devices = sqliteTable('devices', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull(),
+  deviceId: text('device_id').notNull(), // install id reported by the app
+  platform: text('platform', { enum: ['android', 'ios'] }).notNull(),
+  model: text('model'),
+  name: text('name'),
+  osVersion: text('os_version'),
+  appVersion: text('app_version'),
+  pushToken: text('push_token'), // FCM token; replaces users.fcmToken for apps that report a device
+  pairedById: text('paired_by_id'), // parent whose pairing token bound a child to this device
+  // Latest health report
+  locationPermission: text('location_permission', { enum: ['always', 'while_in_use', 'denied'] }),
+  locationEnabled: integer('location_enabled', { mode: 'boolean' }), // OS location services switch
+  batteryLevel: integer('battery_level'),
+  isCharging: integer('is_charging', { mode: 'boolean' }),
+  connectivity: text('connectivity', { enum: ['wifi', 'cellular', 'none'] }),
+  appRemovedAt: integer('app_removed_at', { mode: 'timestamp' }), // uninstall heartbeat; cleared by the next check-in
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  lastCheckInAt: integer('last_check_in_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Device health problems raised by the rule engine. An alert stays open until
+// the condition clears, so parents are told once per occurrence.
+export const deviceAlerts = sqliteTable('device_alerts', {
+  id: text('id').primaryKey(),
+  deviceId: text('device_id').notNull(),
+  userId: text('user_id').notNull(),
+  type: text('type', { enum: ['location_off', 'no_check_in', 'battery_low', 'app_removed'] }).notNull(),
+  startedAt: integer('started_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  resolvedAt: integer('resolved_at', { mode: 'timestamp' }),
+});
+
+// Single-use pairing tokens. The signed token handed out as a QR code only
+// carries the id; redemption is tracked here.
+export const pairingTokens = sqliteTable('pairing_tokens', {
+  id: text('id').primaryKey(),
+  parentId: text('parent_id').notNull(),
+  childId: text('child_id'), // set when pairing a new device for an existing child
+  expiresAt: integer('expires_at', { mode: 'timestamp' }).notNull(),
+  redeemedAt: integer('redeemed_at', { mode: 'timestamp' }),
+  redeemedById: text('redeemed_by_id'),
+  deviceId: text('device_id'), // devices.id the token was redeemed on
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Reverse geocoding cache, keyed by coordinates rounded to ~11 m
+export const geocodeCache = sqliteTable('geocode_cache', {
+  key: text('key').primaryKey(), // "lat,lng" at 4 decimals
+  latitude: real('latitude').notNull(),
+  longitude: real('longitude').notNull(),
+  address: text('address'), // null when the provider found nothing
+  provider: text('provider').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+});
+
+// Data export jobs (GDPR portability). The finished zip is stored inline
+// until it expires, since serverless instances have no durable disk.
+export const dataExports = sqliteTable('data_exports', {
+  id: text('id').primaryKey(),
+  requestedById: text('requested_by_id').notNull(),
+  familyId: text('family_id'),
+  scope: text('scope', { enum: ['family', 'self'] }).notNull(),
+  status: text('status', { enum: ['pending', 'processing', 'ready', 'failed', 'expired'] }).notNull().default('pending'),
+  archive: blob('archive', { mode: 'buffer' }),
+  sizeBytes: integer('size_bytes'),
+  error: text('error'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  startedAt: integer('started_at', { mode: 'timestamp' }), // when it moved to processing
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+  expiresAt: integer('expires_at', { mode: 'timestamp' }),
+});
+
+// Account deletion requests. Erasure runs after a grace period during which
+// the request can be undone; the row is kept afterwards as the receipt.
+export const accountDeletions = sqliteTable('account_deletions', {
+  id: text('id').primaryKey(),
+  userId: text('user_id').notNull(), // account being erased (no longer exists once completed)
+  requestedById: text('requested_by_id').notNull(), // the user themselves, or their parent
+  status: text('status', { enum: ['scheduled', 'cancelled', 'completed'] }).notNull().default('scheduled'),
+  scheduledFor: integer('scheduled_for', { mode: 'timestamp' }).notNull(),
+  erasedRows: text('erased_rows', { mode: 'json' }).$type<Record<string, number> | null>(), // per-table counts
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().$defaultFn(() => new Date()),
+  cancelledAt: integer('cancelled_at', { mode: 'timestamp' }),
+  completedAt: integer('completed_at', { mode: 'timestamp' }),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type NewUser = typeof users.$inferInsert;
 export type Family = typeof families.$inferSelect;
+export type Guardianship = typeof guardianships.$inferSelect;
+export type FamilyInvite = typeof familyInvites.$inferSelect;
+export type MembershipRequest = typeof membershipRequests.$inferSelect;
+export type UserRole = User['role'];
 export type Location = typeof locations.$inferSelect;
+export type NewLocation = typeof locations.$inferInsert;
 export type StatusUpdate = typeof statusUpdates.$inferSelect;
+export type SosSession = typeof sosSessions.$inferSelect;
+export type SosAcknowledgement = typeof sosAcknowledgements.$inferSelect;
 export type FavoritePlace = typeof favoritePlaces.$inferSelect;
 export type DailyStats = typeof dailyStats.$inferSelect;
 export type Geofence = typeof geofences.$inferSelect;
@@ -275,6 +517,16 @@ export type BlockedApp = typeof blockedApps.$inferSelect;
 export type BrowsingHistory = typeof browsingHistory.$inferSelect;
 export type BlockedWebsite = typeof blockedWebsites.$inferSelect;
 export type CrashEvent = typeof crashEvents.$inferSelect;
+export type CrashEventLog = typeof crashEventLogs.$inferSelect;
+export type EmergencyContact = typeof emergencyContacts.$inferSelect;
 export type LocationReminder = typeof locationReminders.$inferSelect;
 export type DrivingSession = typeof drivingSessions.$inferSelect;
 export type DrivingEvent = typeof drivingEvents.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type Device = typeof devices.$inferSelect;
+export type DeviceAlert = typeof deviceAlerts.$inferSelect;
+export type PairingToken = typeof pairingTokens.$inferSelect;
+export type GeocodeCacheEntry = typeof geocodeCache.$inferSelect;
+export type DataExport = typeof dataExports.$inferSelect;
+export type AccountDeletion = typeof accountDeletions.$inferSelect;
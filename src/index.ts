@@ -22,8 +22,14 @@ import browsingRoutes from './routes/browsing';
 import blockedAppsRoutes from './routes/blockedApps';
 import crashRoutes from './routes/crash';
 import drivingRoutes from './routes/driving';
+import eventsRoutes from './routes/events';
+import emergencyContactsRoutes from './routes/emergencyContacts';
+import cronRoutes from './routes/cron';
+import exportsRoutes from './routes/exports';
+import devicesRoutes from './routes/devices';
+import { startJobScheduler } from './jobs';
 import { errorHandler } from './middleware/errorHandler';
-import { authMiddleware } from './middleware/auth';
+import { authMiddleware, tokenFromQuery, requireFeature, fullMemberOnly } from './middleware/auth';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -45,22 +51,27 @@ app.get('/health', (_req, res) => {
 
 // Public routes
 app.use('/api/auth', authRoutes);
+app.use('/api/cron', cronRoutes);
 
-// Protected routes
+// Protected routes. Caregivers and guests reach only the features their invite allows.
 app.use('/api/family', authMiddleware, familyRoutes);
-app.use('/api/location', authMiddleware, locationRoutes);
-app.use('/api/status', authMiddleware, statusRoutes);
-app.use('/api/children', authMiddleware, childRoutes);
-app.use('/api/geofences', authMiddleware, geofenceRoutes);
-app.use('/api/ping', authMiddleware, pingRoutes);
-app.use('/api/location-request', authMiddleware, locationRequestRoutes);
-app.use('/api/chat', authMiddleware, chatRoutes);
-app.use('/api/reminders', authMiddleware, remindersRoutes);
-app.use('/api/screen-time', authMiddleware, screenTimeRoutes);
-app.use('/api/browsing', authMiddleware, browsingRoutes);
-app.use('/api/blocked-apps', authMiddleware, blockedAppsRoutes);
-app.use('/api/crash', authMiddleware, crashRoutes);
-app.use('/api/driving', authMiddleware, drivingRoutes);
+app.use('/api/location', authMiddleware, requireFeature('location'), locationRoutes);
+app.use('/api/status', authMiddleware, requireFeature('status'), statusRoutes);
+app.use('/api/children', authMiddleware, fullMemberOnly, childRoutes);
+app.use('/api/geofences', authMiddleware, requireFeature('location'), geofenceRoutes);
+app.use('/api/ping', authMiddleware, fullMemberOnly, pingRoutes);
+app.use('/api/location-request', authMiddleware, fullMemberOnly, locationRequestRoutes);
+app.use('/api/chat', authMiddleware, requireFeature('chat'), chatRoutes);
+app.use('/api/reminders', authMiddleware, fullMemberOnly, remindersRoutes);
+app.use('/api/screen-time', authMiddleware, fullMemberOnly, screenTimeRoutes);
+app.use('/api/browsing', authMiddleware, fullMemberOnly, browsingRoutes);
+app.use('/api/blocked-apps', authMiddleware, fullMemberOnly, blockedAppsRoutes);
+app.use('/api/crash', authMiddleware, fullMemberOnly, crashRoutes);
+app.use('/api/driving', authMiddleware, fullMemberOnly, drivingRoutes);
+app.use('/api/events', tokenFromQuery, authMiddleware, requireFeature('location'), eventsRoutes);
+app.use('/api/emergency-contacts', authMiddleware, fullMemberOnly, emergencyContactsRoutes);
+app.use('/api/exports', tokenFromQuery, authMiddleware, exportsRoutes);
+app.use('/api/devices', authMiddleware, devicesRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -76,6 +87,8 @@ if (process.env.NODE_ENV !== 'production') {
     console.log(`Praesidium API running on port ${PORT}`);
     console.log(`Health check: http://localhost:${PORT}/health`);
   });
+
+  startJobScheduler();
 }
 
 export default app;
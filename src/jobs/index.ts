@@ -0,0 +1,68 @@
+import { escalateExpiredCrashes } from '../services/emergency';
+import { runRetentionJob } from '../services/retention';
+import { runDataExportJob } from '../services/dataExport';
+import { runAccountDeletionJob } from '../services/accountDeletion';
+import { runDeviceHealthJob } from '../services/deviceHealth';
+import { runOfflineWatchdog } from '../services/presence';
+
+export interface Job {
+  name: string;
+  intervalMs: number; // how often the local scheduler runs it
+  run: () => Promise<unknown>;
+}
+
+export const jobs: Job[] = [
+  {
+    name: 'crash-escalation',
+    intervalMs: 15 * 1000,
+    run: async () => ({ escalated: await escalateExpiredCrashes() }),
+  },
+  {
+    name: 'location-retention',
+    intervalMs: 60 * 60 * 1000,
+    run: runRetentionJob,
+  },
+  {
+    name: 'data-export',
+    intervalMs: 60 * 1000,
+    run: runDataExportJob,
+  },
+  {
+    name: 'account-deletion',
+    intervalMs: 60 * 60 * 1000,
+    run: runAccountDeletionJob,
+  },
+  {
+    name: 'device-health',
+    intervalMs: 60 * 1000,
+    run: runDeviceHealthJob,
+  },
+  {
+    name: 'offline-watchdog',
+    intervalMs: 60 * 1000,
+    run: runOfflineWatchdog,
+  },
+];
+
+export function findJob(name: string): Job | undefined {
+  return jobs.find((job) => job.name === name);
+}
+
+// Run jobs on timers in long-lived processes. Serverless deployments call
+// /api/cron/:job from an external scheduler instead.
+export function startJobScheduler(): void {
+  for (const job of jobs) {
+    let running = false;
+    setInterval(async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Job ${job.name} failed:`, error);
+      } finally {
+        running = false;
+      }
+    }, job.intervalMs).unref();
+  }
+}
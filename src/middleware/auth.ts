@@ -2,12 +2,15 @@ import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { eq } from 'drizzle-orm';
 import { AppError } from './errorHandler';
-import { db, users } from '../db';
+import { db, users, UserRole } from '../db';
+import { getJwtSecret, getActiveSession } from '../services/sessions';
+import { MemberFeature, getAccessDenial, hasFeature, isLimitedRole } from '../services/memberAccess';
 
 export interface JwtPayload {
   userId: string;
   email: string;
-  role: 'parent' | 'child';
+  role: UserRole;
+  sessionId: string;
 }
 
 // Extended user info attached after DB lookup
@@ -15,11 +18,15 @@ export interface AuthenticatedUser {
   id: string;
   email: string;
   displayName: string;
-  role: 'parent' | 'child';
+  role: UserRole;
   avatar: string | null;
   familyId: string | null;
   parentId: string | null;
   pairingCode: string | null;
+  allowedFeatures: string[] | null; // caregivers and guests only
+  pendingApproval: boolean;
+  sessionId: string;
+  deviceId: string | null; // devices.id the session logged in on
 }
 
 declare global {
@@ -43,9 +50,13 @@ export const authMiddleware = async (
     }
 
     const token = authHeader.substring(7);
-    const secret = process.env.JWT_SECRET || 'default-secret';
+    const decoded = jwt.verify(token, getJwtSecret()) as JwtPayload;
 
-    const decoded = jwt.verify(token, secret) as JwtPayload;
+    // Tokens are bound to a session so a device can be logged out remotely
+    const session = decoded.sessionId ? await getActiveSession(decoded.sessionId) : null;
+    if (!session) {
+      throw new AppError('Session revoked', 401);
+    }
 
     // Fetch full user info from database
     const user = await db.query.users.findFirst({
@@ -56,6 +67,12 @@ export const authMiddleware = async (
       throw new AppError('User not found', 401);
     }
 
+    // Caregiver and guest access is time-boxed
+    const accessDenial = await getAccessDenial(user);
+    if (accessDenial) {
+      throw new AppError(accessDenial, 403);
+    }
+
     req.user = {
       id: user.id,
       email: user.email,
@@ -65,22 +82,39 @@ export const authMiddleware = async (
       familyId: user.familyId,
       parentId: user.parentId,
       pairingCode: user.pairingCode,
+      allowedFeatures: user.allowedFeatures,
+      pendingApproval: user.pendingApproval,
+      sessionId: decoded.sessionId,
+      deviceId: session.deviceId,
     };
 
     next();
   } catch (error) {
     if (error instanceof AppError) {
       next(error);
-    } else if (error instanceof jwt.JsonWebTokenError) {
-      next(new AppError('Invalid token', 401));
     } else if (error instanceof jwt.TokenExpiredError) {
+      // Checked first: TokenExpiredError extends JsonWebTokenError
       next(new AppError('Token expired', 401));
+    } else if (error instanceof jwt.JsonWebTokenError) {
+      next(new AppError('Invalid token', 401));
     } else {
       next(new AppError('Authentication failed', 401));
     }
   }
 };
 
+// EventSource cannot send headers, so streaming routes accept ?token= instead
+export const tokenFromQuery = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (!req.headers.authorization && typeof req.query.token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+};
+
 export const parentOnly = (
   req: Request,
   _res: Response,
@@ -91,3 +125,28 @@ export const parentOnly = (
   }
   next();
 };
+
+// Caregivers and guests only reach the features their invite allowed
+export const requireFeature = (feature: MemberFeature) => (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (!req.user || !hasFeature(req.user, feature)) {
+    return next(new AppError('Not available for your membership', 403));
+  }
+  next();
+};
+
+// Parents and children only; caregivers, guests and users waiting for join
+// approval are turned away
+export const fullMemberOnly = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+) => {
+  if (!req.user || isLimitedRole(req.user.role) || req.user.pendingApproval) {
+    return next(new AppError('Not available for your membership', 403));
+  }
+  next();
+};
@@ -1,29 +1,95 @@
-import { Router } from 'express';
+import { Router, Request } from 'express';
 import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { body } from 'express-validator';
+import { body, param, query } from 'express-validator';
 import { eq } from 'drizzle-orm';
-import { db, users, families } from '../db';
+import { db, users, families, sessions, devices, User, Device } from '../db';
 import { validate } from '../middleware/validate';
 import { AppError } from '../middleware/errorHandler';
 import { createPairingCode, generateId, createInviteCode } from '../utils/codes';
+import { isValidTimezone } from '../utils/schedule';
 import { authMiddleware } from '../middleware/auth';
+import {
+  createSession,
+  rotateRefreshToken,
+  listActiveSessions,
+  revokeSession,
+  revokeOtherSessions,
+} from '../services/sessions';
+import {
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+  getScheduledDeletion,
+  leavesChildrenWithoutParent,
+  toDeletionReceipt,
+} from '../services/accountDeletion';
+import { findGuardedChild, getGuardedChildren } from '../services/guardianship';
+import { requestOrAdmit, getPendingRequest } from '../services/membership';
+import { LIMITED_ROLES, isLimitedRole, getAccessDenial } from '../services/memberAccess';
+import { claimInvite } from '../services/invites';
+import { DEVICE_PLATFORMS, registerDevice, setDevicePushToken, toDeviceSummary } from '../services/devices';
+import { createPairingToken, verifyPairingToken, claimPairingToken, completePairing } from '../services/pairing';
+import { checkPassword, getPasswordPolicy } from '../services/passwordPolicy';
+import { requestPasswordReset, resetPassword, sendEmailVerification, verifyEmail } from '../services/authTokens';
 
 const router = Router();
 
+// Caregiver/guest limits, shown to the member so the app can hide what they cannot use
+function describeAccess(user: User) {
+  if (!isLimitedRole(user.role)) return null;
+  return {
+    allowedFeatures: user.allowedFeatures || [],
+    schedule: user.accessSchedule,
+    expiresAt: user.accessExpiresAt,
+  };
+}
+
+// Identity the app sends for the device it runs on (on register, login, pairing
+// and push token updates); id and platform are required once a device is given
+const deviceValidators = [
+  body('device').optional().isObject(),
+  body('device.id').if(body('device').exists()).isString().isLength({ min: 1, max: 200 }),
+  body('device.platform').if(body('device').exists()).isIn(DEVICE_PLATFORMS),
+  body('device.model').optional().isString().isLength({ max: 100 }),
+  body('device.name').optional().isString().isLength({ max: 100 }),
+  body('device.osVersion').optional().isString().isLength({ max: 50 }),
+  body('device.appVersion').optional().isString().isLength({ max: 50 }),
+];
+
+// New passwords must meet the configured policy
+const newPasswordValidator = (field: string) =>
+  body(field).isString().custom((value: string, { req }) => {
+    const problem = checkPassword(value, req.body.email ?? req.user?.email);
+    if (problem) throw new Error(problem);
+    return true;
+  });
+
+function sessionContext(req: Request, device?: Device | null) {
+  return {
+    deviceName: req.body.deviceName || req.body.device?.name || null,
+    deviceId: device?.id || null,
+    userAgent: req.get('user-agent') || null,
+    ipAddress: req.ip || null,
+  };
+}
+
 // Register
 router.post(
   '/register',
   validate([
     body('email').isEmail().normalizeEmail(),
-    body('password').isLength({ min: 4 }),
+    newPasswordValidator('password'),
     body('displayName').trim().isLength({ min: 1, max: 50 }),
-    body('role').isIn(['parent', 'child']),
+    body('role').isIn(['parent', 'child', ...LIMITED_ROLES]),
     body('pairingCode').optional().matches(/^[A-Z0-9]{4}-[A-Z0-9]{4}$/),
+    body('pairingToken').optional().isString().notEmpty(),
+    ...deviceValidators,
+    body('inviteCode').optional().trim().isLength({ min: 6, max: 6 }).toUpperCase(),
+    body('deviceName').optional().isString().isLength({ max: 100 }),
+    body('timezone').optional().custom(isValidTimezone).withMessage('Invalid IANA timezone'),
   ]),
   async (req, res, next) => {
     try {
-      const { email, password, displayName, role, pairingCode } = req.body;
+      const { email, password, displayName, role, pairingCode, pairingToken, device, inviteCode, timezone } = req.body;
 
       // Check if email already exists
       const existingUser = await db.query.users.findFirst({
@@ -33,11 +99,34 @@ router.post(
         throw new AppError('Email already registered', 400);
       }
 
-      // If child registration, validate pairing code
+      if (pairingToken && (role !== 'child' || inviteCode)) {
+        throw new AppError('Pairing tokens are only for child registration without an invite', 400);
+      }
+
+      // If child registration, validate the scanned pairing token, the legacy
+      // typed pairing code or an invite (below)
       let parentUser = null;
-      if (role === 'child') {
+      let pairing = null;
+      if (pairingToken) {
+        if (!device) {
+          throw new AppError('Device identity required when pairing with a token', 400);
+        }
+
+        pairing = await verifyPairingToken(pairingToken);
+        if (!pairing || pairing.childId) {
+          throw new AppError('Invalid or expired pairing token', 400);
+        }
+
+        parentUser = await db.query.users.findFirst({
+          where: eq(users.id, pairing.parentId),
+        });
+
+        if (!parentUser) {
+          throw new AppError('Invalid or expired pairing token', 400);
+        }
+      } else if (role === 'child' && !inviteCode) {
         if (!pairingCode) {
-          throw new AppError('Pairing code required for child registration', 400);
+          throw new AppError('Pairing token, pairing code or invite code required for child registration', 400);
         }
 
         parentUser = await db.query.users.findFirst({
@@ -49,71 +138,124 @@ router.post(
         }
       }
 
+      if (isLimitedRole(role) && !inviteCode) {
+        throw new AppError('Invite code required for caregiver and guest registration', 400);
+      }
+
+      // Joining through an invite: the account lands in the inviting family,
+      // a child is paired with the inviting parent, and caregivers and guests
+      // get the invite's access limits
+      const invite = inviteCode ? await claimInvite(inviteCode, { role, email }) : null;
+      if (inviteCode && !invite) {
+        throw new AppError('Invalid or expired invite code', 400);
+      }
+
+      // The token is used up here, so it cannot be replayed by whoever else saw it
+      if (pairing && !(await claimPairingToken(pairing.id))) {
+        throw new AppError('Invalid or expired pairing token', 400);
+      }
+      if (invite && role === 'child') {
+        parentUser = await db.query.users.findFirst({
+          where: eq(users.id, invite.createdById),
+        });
+      }
+
       // Hash password
       const hashedPassword = await bcrypt.hash(password, 10);
 
       const userId = generateId();
       const now = new Date();
 
-      // For parent registration, create a family first
-      let familyId: string | null = parentUser?.familyId || null;
-      if (role === 'parent') {
+      // For parent registration without an invite, create a family first
+      let familyId: string | null = null;
+      if (role === 'parent' && !invite) {
         const newFamilyId = generateId();
         await db.insert(families).values({
           id: newFamilyId,
           name: `${displayName} család`,
           inviteCode: createInviteCode(),
+          timezone: timezone || null,
           createdAt: now,
           updatedAt: now,
         });
         familyId = newFamilyId;
       }
 
-      // Create user
+      // Create user; joining an existing family happens below
       await db.insert(users).values({
         id: userId,
         email,
         password: hashedPassword,
         displayName,
         role,
-        parentId: parentUser?.id || null,
         familyId,
         pairingCode: role === 'parent' ? createPairingCode() : null,
+        allowedFeatures: invite?.allowedFeatures ?? null,
+        accessSchedule: invite?.accessSchedule ?? null,
+        accessExpiresAt: invite?.accessExpiresAt ?? null,
         createdAt: now,
         updatedAt: now,
         lastSeen: now,
       });
 
-      const user = await db.query.users.findFirst({
+      let user = (await db.query.users.findFirst({
         where: eq(users.id, userId),
-      });
+      }))!;
+
+      // Record the device; a child pairing with a token is bound to it
+      const registeredDevice = device ? await registerDevice(user.id, device, pairing?.parentId) : null;
+      if (pairing) {
+        await completePairing(pairing.id, user.id, registeredDevice!.id);
+      }
 
       // Clear the used pairing code from parent and generate new one
-      if (parentUser) {
+      if (parentUser && !invite && !pairing) {
         await db.update(users)
           .set({ pairingCode: createPairingCode(), updatedAt: new Date() })
           .where(eq(users.id, parentUser.id));
       }
 
-      // Generate JWT
-      const token = jwt.sign(
-        { userId: user!.id, email: user!.email, role: user!.role },
-        process.env.JWT_SECRET || 'default-secret',
-        { expiresIn: '7d' }
-      );
+      // Join the invite's or the pairing parent's family, or wait for a
+      // parent's approval if the family requires it
+      const joinFamilyId = invite?.familyId || parentUser?.familyId;
+      let request = null;
+      if (joinFamilyId) {
+        ({ user, request } = await requestOrAdmit(user, {
+          familyId: joinFamilyId,
+          parentId: parentUser?.id,
+          invitedById: invite?.createdById,
+          inviteId: invite?.id,
+        }, invite ? 'join' : 'pair'));
+      } else if (parentUser) {
+        // Pairing with a parent who has no family yet
+        await db.update(users)
+          .set({ parentId: parentUser.id, updatedAt: new Date() })
+          .where(eq(users.id, user.id));
+        user = { ...user, parentId: parentUser.id };
+      }
+
+      await sendEmailVerification(user);
+
+      const { token, refreshToken, expiresIn } = await createSession(user, sessionContext(req, registeredDevice));
 
       res.status(201).json({
-        message: 'Registration successful',
+        message: request ? 'Registration successful, waiting for a parent to approve' : 'Registration successful',
         user: {
-          id: user!.id,
-          email: user!.email,
-          displayName: user!.displayName,
-          role: user!.role,
-          pairingCode: user!.pairingCode,
-          familyId: user!.familyId,
-          createdAt: user!.createdAt,
+          id: user.id,
+          email: user.email,
+          displayName: user.displayName,
+          role: user.role,
+          pairingCode: user.pairingCode,
+          familyId: user.familyId,
+          pendingApproval: user.pendingApproval,
+          emailVerified: !!user.emailVerifiedAt,
+          createdAt: user.createdAt,
         },
+        membershipRequest: request,
+        device: registeredDevice && toDeviceSummary(registeredDevice),
         token,
+        refreshToken,
+        expiresIn,
       });
     } catch (error) {
       next(error);
@@ -127,10 +269,12 @@ router.post(
   validate([
     body('email').isEmail().normalizeEmail(),
     body('password').notEmpty(),
+    body('deviceName').optional().isString().isLength({ max: 100 }),
+    ...deviceValidators,
   ]),
   async (req, res, next) => {
     try {
-      const { email, password } = req.body;
+      const { email, password, device } = req.body;
 
       // Find user
       const user = await db.query.users.findFirst({
@@ -147,6 +291,18 @@ router.post(
         throw new AppError('Invalid email or password', 401);
       }
 
+      // Accounts removed by a parent stay locked; self-deleting users may log
+      // in during the grace period to undo it
+      const pendingDeletion = await getScheduledDeletion(user.id);
+      if (pendingDeletion && pendingDeletion.requestedById !== user.id) {
+        throw new AppError('This account has been removed by a parent', 403);
+      }
+
+      const accessDenial = await getAccessDenial(user);
+      if (accessDenial) {
+        throw new AppError(accessDenial, 403);
+      }
+
       // Update last seen
       await db.update(users)
         .set({ lastSeen: new Date() })
@@ -158,7 +314,7 @@ router.post(
         family = await db.query.families.findFirst({
           where: eq(families.id, user.familyId),
         });
-      } else if (user.role === 'parent') {
+      } else if (user.role === 'parent' && !user.pendingApproval) {
         // Auto-create family for parent users without one (migration)
         const newFamilyId = generateId();
         const now = new Date();
@@ -184,12 +340,9 @@ router.post(
           .where(eq(users.parentId, user.id));
       }
 
-      // Generate JWT
-      const token = jwt.sign(
-        { userId: user.id, email: user.email, role: user.role },
-        process.env.JWT_SECRET || 'default-secret',
-        { expiresIn: '7d' }
-      );
+      const loginDevice = device ? await registerDevice(user.id, device) : null;
+
+      const { token, refreshToken, expiresIn } = await createSession(user, sessionContext(req, loginDevice));
 
       res.json({
         message: 'Login successful',
@@ -200,9 +353,38 @@ router.post(
           role: user.role,
           avatar: user.avatar,
           pairingCode: user.pairingCode,
-          family: family ? { id: family.id, name: family.name, inviteCode: family.inviteCode } : null,
+          emailVerified: !!user.emailVerifiedAt,
+          family: family ? { id: family.id, name: family.name, inviteCode: isLimitedRole(user.role) ? null : family.inviteCode } : null,
+          access: describeAccess(user),
         },
+        device: loginDevice && toDeviceSummary(loginDevice),
         token,
+        refreshToken,
+        expiresIn,
+        pendingDeletion: pendingDeletion ? toDeletionReceipt(pendingDeletion) : null,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Exchange a refresh token for a new access/refresh token pair
+router.post(
+  '/refresh',
+  validate([
+    body('refreshToken').isString().notEmpty(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const tokens = await rotateRefreshToken(req.body.refreshToken, (userId) =>
+        db.query.users.findFirst({ where: eq(users.id, userId) })
+      );
+
+      res.json({
+        token: tokens.token,
+        refreshToken: tokens.refreshToken,
+        expiresIn: tokens.expiresIn,
       });
     } catch (error) {
       next(error);
@@ -210,6 +392,290 @@ router.post(
   }
 );
 
+// Logout (revokes the current session)
+router.post('/logout', authMiddleware, async (req, res, next) => {
+  try {
+    await revokeSession(req.user!.sessionId);
+
+    res.json({ message: 'Logged out' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List active sessions (own, or a child's when userId is given by their parent)
+router.get(
+  '/sessions',
+  authMiddleware,
+  validate([
+    query('userId').optional().isString(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const targetUserId = (req.query.userId as string) || req.user!.id;
+
+      if (targetUserId !== req.user!.id) {
+        const target = await findGuardedChild(req.user!.id, targetUserId, 'manageLimits');
+
+        if (!target) {
+          throw new AppError('Not authorized to view these sessions', 403);
+        }
+      }
+
+      const activeSessions = await listActiveSessions(targetUserId);
+
+      res.json(activeSessions.map(s => ({
+        id: s.id,
+        deviceName: s.deviceName,
+        deviceId: s.deviceId,
+        userAgent: s.userAgent,
+        ipAddress: s.ipAddress,
+        createdAt: s.createdAt,
+        lastUsedAt: s.lastUsedAt,
+        expiresAt: s.expiresAt,
+        current: s.id === req.user!.sessionId,
+      })));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Revoke a session (own, or a child's lost device by their guardian)
+router.delete(
+  '/sessions/:id',
+  authMiddleware,
+  validate([
+    param('id').notEmpty(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const session = await db.query.sessions.findFirst({
+        where: eq(sessions.id, req.params.id),
+      });
+
+      if (!session) {
+        throw new AppError('Session not found', 404);
+      }
+
+      if (session.userId !== req.user!.id) {
+        const owner = await findGuardedChild(req.user!.id, session.userId, 'manageLimits');
+
+        if (!owner) {
+          throw new AppError('Session not found', 404);
+        }
+      }
+
+      await revokeSession(session.id);
+
+      res.json({ message: 'Session revoked' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Password rules, so the app can check new passwords before submitting
+router.get('/password-policy', (_req, res) => {
+  res.json(getPasswordPolicy());
+});
+
+// Change password (current password required). Other devices are signed out.
+router.post(
+  '/change-password',
+  authMiddleware,
+  validate([
+    body('currentPassword').notEmpty(),
+    newPasswordValidator('newPassword'),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = await db.query.users.findFirst({
+        where: eq(users.id, req.user!.id),
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      const isValidPassword = await bcrypt.compare(req.body.currentPassword, user.password);
+      if (!isValidPassword) {
+        throw new AppError('Invalid password', 401);
+      }
+
+      await db.update(users)
+        .set({ password: await bcrypt.hash(req.body.newPassword, 10), updatedAt: new Date() })
+        .where(eq(users.id, user.id));
+
+      await revokeOtherSessions(user.id, req.user!.sessionId);
+
+      res.json({ message: 'Password changed' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Mail a password reset link. The response is the same whether or not the
+// address has an account.
+router.post(
+  '/forgot-password',
+  validate([
+    body('email').isEmail().normalizeEmail(),
+  ]),
+  async (req, res, next) => {
+    try {
+      await requestPasswordReset(req.body.email);
+
+      res.status(202).json({ message: 'If an account uses this address, a reset e-mail is on its way' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Set a new password with the mailed token. All sessions are revoked.
+router.post(
+  '/reset-password',
+  validate([
+    body('token').isString().notEmpty(),
+    newPasswordValidator('password'),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = await resetPassword(req.body.token, req.body.password);
+
+      if (!user) {
+        throw new AppError('Invalid or expired reset token', 400);
+      }
+
+      res.json({ message: 'Password reset, please log in again' });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Send (again) the e-mail verification link
+router.post('/verify-email/send', authMiddleware, async (req, res, next) => {
+  try {
+    const user = await db.query.users.findFirst({
+      where: eq(users.id, req.user!.id),
+    });
+
+    if (!user) {
+      throw new AppError('User not found', 404);
+    }
+
+    if (user.emailVerifiedAt) {
+      throw new AppError('E-mail already verified', 400);
+    }
+
+    if (!(await sendEmailVerification(user))) {
+      throw new AppError('A verification e-mail was sent recently, try again later', 429);
+    }
+
+    res.status(202).json({ message: 'Verification e-mail sent' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Confirm an e-mail address with the mailed token
+router.post(
+  '/verify-email',
+  validate([
+    body('token').isString().notEmpty(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = await verifyEmail(req.body.token);
+
+      if (!user) {
+        throw new AppError('Invalid or expired verification token', 400);
+      }
+
+      res.json({ message: 'E-mail verified', email: user.email, emailVerifiedAt: user.emailVerifiedAt });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Delete own account. Data is erased after a grace period; until then
+// logging in and calling /account/restore undoes the request.
+router.delete(
+  '/account',
+  authMiddleware,
+  validate([
+    body('password').notEmpty(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = await db.query.users.findFirst({
+        where: eq(users.id, req.user!.id),
+      });
+
+      if (!user) {
+        throw new AppError('User not found', 404);
+      }
+
+      const isValidPassword = await bcrypt.compare(req.body.password, user.password);
+      if (!isValidPassword) {
+        throw new AppError('Invalid password', 401);
+      }
+
+      if (await leavesChildrenWithoutParent(user)) {
+        throw new AppError('Add another parent to the family or remove your children first', 409);
+      }
+
+      const deletion = await scheduleAccountDeletion(user, user.id);
+
+      res.status(202).json({
+        message: 'Account scheduled for deletion',
+        receipt: toDeletionReceipt(deletion),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Get pending account deletion
+router.get('/account/deletion', authMiddleware, async (req, res, next) => {
+  try {
+    const deletion = await getScheduledDeletion(req.user!.id);
+
+    if (!deletion) {
+      throw new AppError('No pending deletion', 404);
+    }
+
+    res.json(toDeletionReceipt(deletion));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Undo a pending account deletion
+router.post('/account/restore', authMiddleware, async (req, res, next) => {
+  try {
+    const deletion = await getScheduledDeletion(req.user!.id);
+
+    if (!deletion) {
+      throw new AppError('No pending deletion', 404);
+    }
+
+    const cancelled = await cancelAccountDeletion(deletion);
+
+    res.json({
+      message: 'Account deletion cancelled',
+      receipt: toDeletionReceipt(cancelled),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get current user
 router.get('/me', authMiddleware, async (req, res, next) => {
   try {
@@ -230,9 +696,9 @@ router.get('/me', authMiddleware, async (req, res, next) => {
     }
 
     // Get children if parent
-    const children = await db.query.users.findMany({
-      where: eq(users.parentId, user.id),
-    });
+    const children = await getGuardedChildren(user.id);
+
+    const pendingRequest = user.pendingApproval ? await getPendingRequest(user.id) : undefined;
 
     res.json({
       id: user.id,
@@ -241,7 +707,12 @@ router.get('/me', authMiddleware, async (req, res, next) => {
       role: user.role,
       avatar: user.avatar,
       pairingCode: user.pairingCode,
-      family: family ? { id: family.id, name: family.name, inviteCode: family.inviteCode } : null,
+      emailVerified: !!user.emailVerifiedAt,
+      family: family ? { id: family.id, name: family.name, inviteCode: isLimitedRole(user.role) ? null : family.inviteCode } : null,
+      access: describeAccess(user),
+      pendingRequest: pendingRequest
+        ? { id: pendingRequest.id, familyId: pendingRequest.familyId, type: pendingRequest.type, createdAt: pendingRequest.createdAt }
+        : null,
       children: children.map(c => ({
         id: c.id,
         displayName: c.displayName,
@@ -256,22 +727,45 @@ router.get('/me', authMiddleware, async (req, res, next) => {
   }
 });
 
-// Update FCM token
-router.patch('/fcm-token', authMiddleware, async (req, res, next) => {
-  try {
-    const { fcmToken } = req.body;
+// Update FCM token. The token is stored on the device given in the body, or
+// the one this session logged in with; apps that report neither keep using
+// the single per-user token.
+router.patch(
+  '/fcm-token',
+  authMiddleware,
+  validate([
+    body('fcmToken').optional({ values: 'null' }).isString(),
+    ...deviceValidators,
+  ]),
+  async (req, res, next) => {
+    try {
+      const { fcmToken, device } = req.body;
+
+      let target: Device | null | undefined = null;
+      if (device) {
+        target = await registerDevice(req.user!.id, device);
+      } else if (req.user!.deviceId) {
+        target = await db.query.devices.findFirst({
+          where: eq(devices.id, req.user!.deviceId),
+        });
+      }
 
-    await db.update(users)
-      .set({ fcmToken, updatedAt: new Date() })
-      .where(eq(users.id, req.user!.id));
+      if (target) {
+        target = await setDevicePushToken(target, fcmToken || null);
+      } else {
+        await db.update(users)
+          .set({ fcmToken, updatedAt: new Date() })
+          .where(eq(users.id, req.user!.id));
+      }
 
-    res.json({ message: 'FCM token updated' });
-  } catch (error) {
-    next(error);
+      res.json({ message: 'FCM token updated', device: target ? toDeviceSummary(target) : null });
+    } catch (error) {
+      next(error);
+    }
   }
-});
+);
 
-// Generate new pairing code (for parents)
+// Generate new pairing code (for parents; legacy typed codes, prefer pairing tokens)
 router.post('/pairing-code', authMiddleware, async (req, res, next) => {
   try {
     if (req.user!.role !== 'parent') {
@@ -290,4 +784,97 @@ router.post('/pairing-code', authMiddleware, async (req, res, next) => {
   }
 });
 
+// Issue a short-lived, single-use pairing token for the app to show as a QR
+// code (parents only). Scanned on a new child's device it registers the child;
+// issued for a childId it signs that child in on another device.
+router.post(
+  '/pairing-token',
+  authMiddleware,
+  validate([
+    body('childId').optional().isString(),
+  ]),
+  async (req, res, next) => {
+    try {
+      if (req.user!.role !== 'parent') {
+        throw new AppError('Only parents can generate pairing tokens', 403);
+      }
+
+      const { childId } = req.body;
+      if (childId && !(await findGuardedChild(req.user!.id, childId, 'manageLimits'))) {
+        throw new AppError('Child not found', 404);
+      }
+
+      const { token, expiresAt } = await createPairingToken(req.user!.id, childId || null);
+
+      res.status(201).json({ pairingToken: token, expiresAt });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Redeem a pairing token issued for an existing child on a new device
+router.post(
+  '/pair',
+  validate([
+    body('pairingToken').isString().notEmpty(),
+    body('device').isObject(),
+    ...deviceValidators,
+  ]),
+  async (req, res, next) => {
+    try {
+      const { pairingToken, device } = req.body;
+
+      const pairing = await verifyPairingToken(pairingToken);
+      if (!pairing) {
+        throw new AppError('Invalid or expired pairing token', 400);
+      }
+      if (!pairing.childId) {
+        throw new AppError('This pairing token registers a new child; use it with /register', 400);
+      }
+
+      // The parent may have lost access since the token was issued
+      const child = await findGuardedChild(pairing.parentId, pairing.childId, 'manageLimits');
+      if (!child) {
+        throw new AppError('Invalid or expired pairing token', 400);
+      }
+
+      if (await getScheduledDeletion(child.id)) {
+        throw new AppError('This account has been removed by a parent', 403);
+      }
+
+      if (!(await claimPairingToken(pairing.id))) {
+        throw new AppError('Invalid or expired pairing token', 400);
+      }
+
+      const pairedDevice = await registerDevice(child.id, device, pairing.parentId);
+      await completePairing(pairing.id, child.id, pairedDevice.id);
+
+      await db.update(users)
+        .set({ lastSeen: new Date() })
+        .where(eq(users.id, child.id));
+
+      const { token, refreshToken, expiresIn } = await createSession(child, sessionContext(req, pairedDevice));
+
+      res.json({
+        message: 'Device paired',
+        user: {
+          id: child.id,
+          email: child.email,
+          displayName: child.displayName,
+          role: child.role,
+          avatar: child.avatar,
+          familyId: child.familyId,
+        },
+        device: toDeviceSummary(pairedDevice),
+        token,
+        refreshToken,
+        expiresIn,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -1,9 +1,12 @@
 import { Router, Request, Response } from 'express';
 import { body, param } from 'express-validator';
-import { db, blockedApps, users } from '../db';
+import { db, blockedApps } from '../db';
 import { parentOnly } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
+import { isScheduleActive, validateSchedule } from '../utils/schedule';
+import { getUserTimezone } from '../services/timezone';
+import { findGuardedChild } from '../services/guardianship';
 import { eq, and, desc } from 'drizzle-orm';
 
 const router = Router();
@@ -13,13 +16,15 @@ router.post('/', parentOnly, validate([
   body('packageName').notEmpty(),
   body('appName').notEmpty(),
   body('blockType').isIn(['always', 'scheduled', 'limit_exceeded']),
-  body('schedule').optional().isObject(),
+  body('schedule').optional().custom((schedule) => {
+    const error = validateSchedule(schedule);
+    if (error) throw new Error(error);
+    return true;
+  }),
 ]), async (req: Request, res: Response) => {
   try {
     const user = req.user!;
-    const child = await db.query.users.findFirst({
-      where: and(eq(users.id, req.body.childId), eq(users.parentId, user.id)),
-    });
+    const child = await findGuardedChild(user.id, req.body.childId, 'manageLimits');
 
     if (!child) {
       return res.status(403).json({ error: 'Child not found or not your child' });
@@ -58,15 +63,45 @@ router.post('/', parentOnly, validate([
   }
 });
 
+// Registered before /:childId so 'check' is not taken as a child ID
+router.get('/check', async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+
+    const blocked = await db.query.blockedApps.findMany({
+      where: and(eq(blockedApps.childId, user.id), eq(blockedApps.isActive, true)),
+    });
+
+    const timezone = await getUserTimezone(user.id);
+
+    const activeBlocks = blocked.filter((b) => {
+      if (b.blockType === 'always') return true;
+      if (b.blockType === 'scheduled' && b.schedule) {
+        return isScheduleActive(b.schedule, timezone);
+      }
+      return true;
+    });
+
+    res.json({
+      blockedApps: activeBlocks.map((b) => ({
+        packageName: b.packageName,
+        appName: b.appName,
+        blockType: b.blockType,
+      })),
+    });
+  } catch (error) {
+    console.error('Check blocked apps error:', error);
+    res.status(500).json({ error: 'Failed to check blocked apps' });
+  }
+});
+
 router.get('/:childId', validate([param('childId').notEmpty()]), async (req: Request, res: Response) => {
   try {
     const user = req.user!;
     const { childId } = req.params;
 
     if (user.role === 'parent') {
-      const child = await db.query.users.findFirst({
-        where: and(eq(users.id, childId), eq(users.parentId, user.id)),
-      });
+      const child = await findGuardedChild(user.id, childId);
       if (!child) {
         return res.status(403).json({ error: 'Child not found or not your child' });
       }
@@ -97,7 +132,7 @@ router.delete('/:id', parentOnly, validate([param('id').notEmpty()]), async (req
       return res.status(404).json({ error: 'Blocked app not found' });
     }
 
-    if (blocked.parentId !== user.id) {
+    if (!await findGuardedChild(user.id, blocked.childId, 'manageLimits')) {
       return res.status(403).json({ error: 'Access denied' });
     }
 
@@ -109,39 +144,4 @@ router.delete('/:id', parentOnly, validate([param('id').notEmpty()]), async (req
   }
 });
 
-router.get('/check', async (req: Request, res: Response) => {
-  try {
-    const user = req.user!;
-
-    const blocked = await db.query.blockedApps.findMany({
-      where: and(eq(blockedApps.childId, user.id), eq(blockedApps.isActive, true)),
-    });
-
-    const now = new Date();
-    const currentDay = now.getDay();
-    const currentTime = String(now.getHours()).padStart(2, '0') + ':' + String(now.getMinutes()).padStart(2, '0');
-
-    const activeBlocks = blocked.filter((b) => {
-      if (b.blockType === 'always') return true;
-      if (b.blockType === 'scheduled' && b.schedule) {
-        const schedule = b.schedule as { days: number[]; startTime: string; endTime: string };
-        if (!schedule.days.includes(currentDay)) return false;
-        return currentTime >= schedule.startTime && currentTime <= schedule.endTime;
-      }
-      return true;
-    });
-
-    res.json({
-      blockedApps: activeBlocks.map((b) => ({
-        packageName: b.packageName,
-        appName: b.appName,
-        blockType: b.blockType,
-      })),
-    });
-  } catch (error) {
-    console.error('Check blocked apps error:', error);
-    res.status(500).json({ error: 'Failed to check blocked apps' });
-  }
-});
-
 export default router;
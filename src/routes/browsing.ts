@@ -1,9 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { body, param, query } from 'express-validator';
-import { db, browsingHistory, blockedWebsites, users } from '../db';
+import { db, browsingHistory, blockedWebsites } from '../db';
 import { parentOnly } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
+import { findGuardedChild } from '../services/guardianship';
 import { eq, and, desc } from 'drizzle-orm';
 
 const router = Router();
@@ -29,7 +30,7 @@ router.get('/:childId', parentOnly, validate([param('childId').notEmpty(), query
       const user = req.user!;
       const { childId } = req.params;
       const limit = parseInt(req.query.limit as string) || 100;
-      const child = await db.query.users.findFirst({ where: and(eq(users.id, childId), eq(users.parentId, user.id)) });
+      const child = await findGuardedChild(user.id, childId, 'viewBrowsing');
       if (!child) return res.status(403).json({ error: 'Child not found or not your child' });
 
       const history = await db.query.browsingHistory.findMany({ where: eq(browsingHistory.userId, childId), orderBy: [desc(browsingHistory.visitedAt)], limit });
@@ -44,7 +45,7 @@ router.post('/blocked', parentOnly, validate([body('childId').notEmpty(), body('
   async (req: Request, res: Response) => {
     try {
       const user = req.user!;
-      const child = await db.query.users.findFirst({ where: and(eq(users.id, req.body.childId), eq(users.parentId, user.id)) });
+      const child = await findGuardedChild(user.id, req.body.childId, 'manageLimits');
       if (!child) return res.status(403).json({ error: 'Child not found or not your child' });
 
       const blocked = {
@@ -64,7 +65,7 @@ router.get('/blocked/:childId', validate([param('childId').notEmpty()]), async (
     const user = req.user!;
     const { childId } = req.params;
     if (user.role === 'parent') {
-      const child = await db.query.users.findFirst({ where: and(eq(users.id, childId), eq(users.parentId, user.id)) });
+      const child = await findGuardedChild(user.id, childId);
       if (!child) return res.status(403).json({ error: 'Child not found or not your child' });
     } else if (user.id !== childId) {
       return res.status(403).json({ error: 'Access denied' });
@@ -82,7 +83,7 @@ router.delete('/blocked/:id', parentOnly, validate([param('id').notEmpty()]), as
     const user = req.user!;
     const blocked = await db.query.blockedWebsites.findFirst({ where: eq(blockedWebsites.id, req.params.id) });
     if (!blocked) return res.status(404).json({ error: 'Blocked site not found' });
-    if (blocked.parentId !== user.id) return res.status(403).json({ error: 'Access denied' });
+    if (!await findGuardedChild(user.id, blocked.childId, 'manageLimits')) return res.status(403).json({ error: 'Access denied' });
     await db.delete(blockedWebsites).where(eq(blockedWebsites.id, req.params.id));
     res.json({ message: 'Website unblocked' });
   } catch (error) {
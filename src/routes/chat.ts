@@ -3,6 +3,7 @@ import { body, param, query } from 'express-validator';
 import { db, chatMessages, users } from '../db';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
+import { publishFamilyEvent } from '../services/events';
 import { eq, desc, and, lt } from 'drizzle-orm';
 
 const router = Router();
@@ -77,6 +78,9 @@ router.post(
         readBy: [user.id],
       };
       await db.insert(chatMessages).values(message);
+      publishFamilyEvent(user.familyId, 'chat_message', {
+        message: { ...message, senderName: user.displayName, senderAvatar: user.avatar, senderRole: user.role },
+      });
       res.status(201).json({
         message: { ...message, senderName: user.displayName, senderAvatar: user.avatar, senderRole: user.role, isRead: true },
       });
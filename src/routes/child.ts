@@ -1,26 +1,85 @@
 import { Router } from 'express';
 import { body, query } from 'express-validator';
-import { eq, desc, and, gte, lte, asc } from 'drizzle-orm';
-import { db, users, locations, statusUpdates, dailyStats } from '../db';
+import { eq, ne, desc, and, gte, lte, asc, or, isNull } from 'drizzle-orm';
+import {
+  db,
+  users,
+  locations,
+  statusUpdates,
+  dailyStats,
+  drivingSessions,
+  accountDeletions,
+  guardianships,
+  devices,
+  Location,
+} from '../db';
 import { validate } from '../middleware/validate';
 import { AppError } from '../middleware/errorHandler';
 import { parentOnly } from '../middleware/auth';
 import { generateId } from '../utils/codes';
+import { isValidTimezone, getLocalDate, getLocalDayBounds } from '../utils/schedule';
+import { getUserTimezone } from '../services/timezone';
+import { buildTimeline } from '../services/timeline';
+import {
+  ExportFormat,
+  ExportTrack,
+  EXPORT_FORMATS,
+  EXPORT_CONTENT_TYPES,
+  renderTracks,
+} from '../utils/trackExport';
+import {
+  scheduleAccountDeletion,
+  cancelAccountDeletion,
+  getScheduledDeletion,
+  toDeletionReceipt,
+} from '../services/accountDeletion';
+import {
+  findGuardedChild,
+  getGuardedChildren,
+  getGuardianPermissions,
+  setGuardianship,
+  toPermissions,
+  GUARDIAN_PERMISSIONS,
+} from '../services/guardianship';
+import { listDevices, removeDevice, toDeviceSummary } from '../services/devices';
+import { getOpenAlerts } from '../services/deviceHealth';
+import { getOfflineThreshold, DEFAULT_OFFLINE_AFTER_MINUTES } from '../services/presence';
 
 const router = Router();
 
+const MAX_EXPORT_RANGE_DAYS = 31;
+
+// Deletion receipts for children this parent removed
+router.get('/removals', parentOnly, async (req, res, next) => {
+  try {
+    const removals = await db.query.accountDeletions.findMany({
+      where: and(
+        eq(accountDeletions.requestedById, req.user!.id),
+        ne(accountDeletions.userId, req.user!.id)
+      ),
+      orderBy: desc(accountDeletions.createdAt),
+    });
+
+    res.json(removals.map(toDeletionReceipt));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get all children (for parent)
 router.get('/', parentOnly, async (req, res, next) => {
   try {
-    const children = await db.query.users.findMany({
-      where: eq(users.parentId, req.user!.id),
-    });
+    const children = await getGuardedChildren(req.user!.id);
 
     const result = await Promise.all(children.map(async (child) => {
-      const lastLocation = await db.query.locations.findFirst({
-        where: eq(locations.userId, child.id),
-        orderBy: desc(locations.timestamp),
-      });
+      const permissions = (await getGuardianPermissions(req.user!.id, child))!;
+
+      const lastLocation = permissions.viewLocation
+        ? await db.query.locations.findFirst({
+          where: eq(locations.userId, child.id),
+          orderBy: desc(locations.timestamp),
+        })
+        : undefined;
 
       const lastStatus = await db.query.statusUpdates.findFirst({
         where: eq(statusUpdates.userId, child.id),
@@ -39,7 +98,11 @@ router.get('/', parentOnly, async (req, res, next) => {
           timestamp: lastLocation.timestamp,
         } : null,
         batteryLevel: lastLocation?.batteryLevel ?? null,
+        offline: permissions.viewLocation ? !!child.offlineSince : null,
+        offlineSince: permissions.viewLocation ? child.offlineSince : null,
         status: lastStatus?.status || 'none',
+        isPrimary: child.parentId === req.user!.id,
+        permissions,
       };
     }));
 
@@ -54,21 +117,20 @@ router.get('/:childId', parentOnly, async (req, res, next) => {
   try {
     const { childId } = req.params;
 
-    const child = await db.query.users.findFirst({
-      where: and(
-        eq(users.id, childId),
-        eq(users.parentId, req.user!.id)
-      ),
-    });
+    const child = await findGuardedChild(req.user!.id, childId);
 
     if (!child) {
       throw new AppError('Child not found', 404);
     }
 
-    const lastLocation = await db.query.locations.findFirst({
-      where: eq(locations.userId, child.id),
-      orderBy: desc(locations.timestamp),
-    });
+    const permissions = (await getGuardianPermissions(req.user!.id, child))!;
+
+    const lastLocation = permissions.viewLocation
+      ? await db.query.locations.findFirst({
+        where: eq(locations.userId, child.id),
+        orderBy: desc(locations.timestamp),
+      })
+      : undefined;
 
     const lastStatus = await db.query.statusUpdates.findFirst({
       where: eq(statusUpdates.userId, child.id),
@@ -89,7 +151,12 @@ router.get('/:childId', parentOnly, async (req, res, next) => {
       } : null,
       batteryLevel: lastLocation?.batteryLevel ?? null,
       isCharging: lastLocation?.isCharging ?? false,
+      offline: permissions.viewLocation ? !!child.offlineSince : null,
+      offlineSince: permissions.viewLocation ? child.offlineSince : null,
+      offlineAfterMinutes: getOfflineThreshold(child),
       status: lastStatus?.status || 'none',
+      isPrimary: child.parentId === req.user!.id,
+      permissions,
     });
   } catch (error) {
     next(error);
@@ -108,13 +175,7 @@ router.get(
       const { childId } = req.params;
       const { date } = req.query;
 
-      // Verify parent-child relationship
-      const child = await db.query.users.findFirst({
-        where: and(
-          eq(users.id, childId),
-          eq(users.parentId, req.user!.id)
-        ),
-      });
+      const child = await findGuardedChild(req.user!.id, childId, 'viewLocation');
 
       if (!child) {
         throw new AppError('Child not found', 404);
@@ -150,6 +211,156 @@ router.get(
   }
 );
 
+// Get child's day as stays and trips, in the child's timezone
+router.get(
+  '/:childId/timeline',
+  parentOnly,
+  validate([
+    query('date').optional().isISO8601({ strict: true }).matches(/^\d{4}-\d{2}-\d{2}$/),
+  ]),
+  async (req, res, next) => {
+    try {
+      const { childId } = req.params;
+
+      const child = await findGuardedChild(req.user!.id, childId, 'viewLocation');
+
+      if (!child) {
+        throw new AppError('Child not found', 404);
+      }
+
+      const timezone = await getUserTimezone(child.id);
+      const date = (req.query.date as string) || getLocalDate(new Date(), timezone);
+      const { start, end } = getLocalDayBounds(date, timezone);
+
+      const entries = await buildTimeline(child, start, end);
+
+      res.json({
+        date,
+        timezone,
+        entries: entries.map((entry) => ({
+          ...entry,
+          start: entry.start.getTime(),
+          end: entry.end.getTime(),
+          ...(entry.type === 'trip'
+            ? { path: entry.path.map((p) => ({ ...p, timestamp: p.timestamp.getTime() })) }
+            : {}),
+        })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Export a child's locations for a date range as GPX, KML or GeoJSON.
+// Points recorded during a driving session go in that session's own track.
+router.get(
+  '/:childId/export',
+  parentOnly,
+  validate([
+    query('format').optional().isIn(EXPORT_FORMATS),
+    query('from').isISO8601(),
+    query('to').isISO8601(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const { childId } = req.params;
+      const format = (req.query.format as ExportFormat) || 'gpx';
+      const from = new Date(req.query.from as string);
+      const to = new Date(req.query.to as string);
+
+      if (to <= from) {
+        throw new AppError('to must be after from', 400);
+      }
+      if (to.getTime() - from.getTime() > MAX_EXPORT_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+        throw new AppError(`Export range can be at most ${MAX_EXPORT_RANGE_DAYS} days`, 400);
+      }
+
+      const child = await findGuardedChild(req.user!.id, childId, 'viewLocation');
+
+      if (!child) {
+        throw new AppError('Child not found', 404);
+      }
+
+      const [points, sessions] = await Promise.all([
+        db.query.locations.findMany({
+          where: and(
+            eq(locations.userId, childId),
+            gte(locations.timestamp, from),
+            lte(locations.timestamp, to)
+          ),
+          orderBy: asc(locations.timestamp),
+        }),
+        db.query.drivingSessions.findMany({
+          where: and(
+            eq(drivingSessions.userId, childId),
+            lte(drivingSessions.startTime, to),
+            or(isNull(drivingSessions.endTime), gte(drivingSessions.endTime, from))
+          ),
+          orderBy: asc(drivingSessions.startTime),
+        }),
+      ]);
+
+      const toExportPoint = (loc: Location) => ({
+        latitude: loc.latitude,
+        longitude: loc.longitude,
+        altitude: loc.altitude,
+        accuracy: loc.accuracy,
+        speed: loc.speed,
+        batteryLevel: loc.batteryLevel,
+        isCharging: loc.isCharging,
+        timestamp: loc.timestamp,
+      });
+
+      const drivingTracks: ExportTrack[] = sessions.map((session) => ({
+        name: `Drive ${session.startTime.toISOString()}`,
+        type: 'driving',
+        segments: [[]],
+        properties: {
+          drivingSessionId: session.id,
+          startTime: session.startTime.toISOString(),
+          endTime: session.endTime?.toISOString() || null,
+          distanceKm: session.distanceKm,
+          maxSpeed: session.maxSpeed,
+          avgSpeed: session.avgSpeed,
+          score: session.score,
+        },
+      }));
+      const locationTrack: ExportTrack = { name: `${child.displayName} locations`, type: 'locations', segments: [] };
+
+      // Split the location track wherever a drive takes over
+      let current: ExportTrack['segments'][number] | null = null;
+      for (const loc of points) {
+        const index = sessions.findIndex((s) => s.startTime <= loc.timestamp && (!s.endTime || s.endTime >= loc.timestamp));
+        if (index >= 0) {
+          drivingTracks[index].segments[0].push(toExportPoint(loc));
+          current = null;
+          continue;
+        }
+        if (!current) {
+          current = [];
+          locationTrack.segments.push(current);
+        }
+        current.push(toExportPoint(loc));
+      }
+
+      const tracks = [
+        ...(locationTrack.segments.length > 0 ? [locationTrack] : []),
+        ...drivingTracks.filter((track) => track.segments[0].length > 0),
+      ];
+
+      const day = (date: Date) => date.toISOString().split('T')[0];
+      const filename = `${childId}-${day(from)}-${day(to)}.${format}`;
+
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(renderTracks(format, `${child.displayName} ${day(from)} - ${day(to)}`, tracks));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // Get/update child's daily stats
 router.get(
   '/:childId/stats',
@@ -162,13 +373,7 @@ router.get(
       const { childId } = req.params;
       const { date } = req.query;
 
-      // Verify parent-child relationship
-      const child = await db.query.users.findFirst({
-        where: and(
-          eq(users.id, childId),
-          eq(users.parentId, req.user!.id)
-        ),
-      });
+      const child = await findGuardedChild(req.user!.id, childId);
 
       if (!child) {
         throw new AppError('Child not found', 404);
@@ -195,11 +400,13 @@ router.get(
         return;
       }
 
+      const permissions = (await getGuardianPermissions(req.user!.id, child))!;
+
       res.json({
         date: stats.date,
         screenTimeMinutes: stats.screenTimeMinutes,
         appUsage: stats.appUsage,
-        visitedUrls: stats.visitedUrls,
+        visitedUrls: permissions.viewBrowsing ? stats.visitedUrls : [],
       });
     } catch (error) {
       next(error);
@@ -288,13 +495,7 @@ router.patch(
       const { childId } = req.params;
       const { avatar } = req.body;
 
-      // Verify parent-child relationship
-      const child = await db.query.users.findFirst({
-        where: and(
-          eq(users.id, childId),
-          eq(users.parentId, req.user!.id)
-        ),
-      });
+      const child = await findGuardedChild(req.user!.id, childId, 'manageLimits');
 
       if (!child) {
         throw new AppError('Child not found', 404);
@@ -311,4 +512,284 @@ router.patch(
   }
 );
 
+// Set child's timezone override (parent only, null falls back to the family timezone)
+router.patch(
+  '/:childId/timezone',
+  parentOnly,
+  validate([
+    body('timezone').optional({ values: 'null' }).custom(isValidTimezone).withMessage('Invalid IANA timezone'),
+  ]),
+  async (req, res, next) => {
+    try {
+      const { childId } = req.params;
+      const timezone = req.body.timezone ?? null;
+
+      const child = await findGuardedChild(req.user!.id, childId, 'manageLimits');
+
+      if (!child) {
+        throw new AppError('Child not found', 404);
+      }
+
+      await db.update(users)
+        .set({ timezone, updatedAt: new Date() })
+        .where(eq(users.id, childId));
+
+      res.json({ message: 'Timezone updated', timezone });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Set how long a child may go without sending a location before they are
+// flagged offline (parent only, null falls back to the default)
+router.patch(
+  '/:childId/offline-threshold',
+  parentOnly,
+  validate([
+    body('minutes').optional({ values: 'null' }).isInt({ min: 5, max: 1440 }).toInt(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const { childId } = req.params;
+      const minutes = req.body.minutes ?? null;
+
+      const child = await findGuardedChild(req.user!.id, childId, 'manageLimits');
+
+      if (!child) {
+        throw new AppError('Child not found', 404);
+      }
+
+      await db.update(users)
+        .set({ offlineAfterMinutes: minutes, updatedAt: new Date() })
+        .where(eq(users.id, childId));
+
+      res.json({ message: 'Offline threshold updated', offlineAfterMinutes: minutes ?? DEFAULT_OFFLINE_AFTER_MINUTES });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// List a child's guardians and what each may do
+router.get('/:childId/guardians', parentOnly, async (req, res, next) => {
+  try {
+    const child = await findGuardedChild(req.user!.id, req.params.childId);
+
+    if (!child) {
+      throw new AppError('Child not found', 404);
+    }
+
+    const rows = await db.query.guardianships.findMany({
+      where: eq(guardianships.childId, child.id),
+    });
+    const guardianIds = [...new Set([...(child.parentId ? [child.parentId] : []), ...rows.map((r) => r.guardianId)])];
+    const guardians = await Promise.all(guardianIds.map((id) => db.query.users.findFirst({ where: eq(users.id, id) })));
+
+    res.json(await Promise.all(guardians.filter((g) => !!g).map(async (guardian) => {
+      const row = rows.find((r) => r.guardianId === guardian.id);
+      return {
+        id: guardian.id,
+        name: guardian.displayName,
+        avatar: guardian.avatar,
+        isPrimary: guardian.id === child.parentId,
+        permissions: await getGuardianPermissions(guardian.id, child),
+        grantedById: row?.grantedById ?? null,
+        grantedAt: row?.createdAt ?? null,
+      };
+    })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Add a guardian or change their permissions (primary guardian only). The
+// guardian must be a parent in the child's family.
+router.put(
+  '/:childId/guardians/:guardianId',
+  parentOnly,
+  validate(GUARDIAN_PERMISSIONS.map((permission) => body(permission).optional().isBoolean())),
+  async (req, res, next) => {
+    try {
+      const { childId, guardianId } = req.params;
+
+      const child = await findGuardedChild(req.user!.id, childId);
+
+      if (!child) {
+        throw new AppError('Child not found', 404);
+      }
+
+      if (child.parentId !== req.user!.id) {
+        throw new AppError('Only the primary guardian can manage guardians', 403);
+      }
+
+      if (guardianId === child.parentId) {
+        throw new AppError('The primary guardian always has full access', 400);
+      }
+
+      const guardian = await db.query.users.findFirst({
+        where: and(eq(users.id, guardianId), eq(users.role, 'parent')),
+      });
+
+      if (!guardian || !child.familyId || guardian.familyId !== child.familyId) {
+        throw new AppError('Guardian must be a parent in the child\'s family', 400);
+      }
+
+      const permissions = Object.fromEntries(
+        GUARDIAN_PERMISSIONS.map((permission) => [permission, req.body[permission]])
+      );
+      const row = await setGuardianship(child.id, guardian.id, permissions, req.user!.id);
+
+      res.json({
+        id: guardian.id,
+        name: guardian.displayName,
+        isPrimary: false,
+        permissions: toPermissions(row),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Revoke a guardian (primary guardian, or a guardian stepping down)
+router.delete('/:childId/guardians/:guardianId', parentOnly, async (req, res, next) => {
+  try {
+    const { childId, guardianId } = req.params;
+
+    const child = await findGuardedChild(req.user!.id, childId);
+
+    if (!child) {
+      throw new AppError('Child not found', 404);
+    }
+
+    if (child.parentId !== req.user!.id && guardianId !== req.user!.id) {
+      throw new AppError('Only the primary guardian can manage guardians', 403);
+    }
+
+    if (guardianId === child.parentId) {
+      throw new AppError('The primary guardian cannot be removed', 400);
+    }
+
+    const removed = await db.delete(guardianships)
+      .where(and(eq(guardianships.childId, child.id), eq(guardianships.guardianId, guardianId)))
+      .returning({ id: guardianships.id });
+
+    if (removed.length === 0) {
+      throw new AppError('Guardian not found', 404);
+    }
+
+    res.json({ message: 'Guardian removed' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// List the devices a child uses with their health and open alerts
+router.get('/:childId/devices', parentOnly, async (req, res, next) => {
+  try {
+    const child = await findGuardedChild(req.user!.id, req.params.childId);
+
+    if (!child) {
+      throw new AppError('Child not found', 404);
+    }
+
+    const childDevices = await listDevices(child.id);
+    const alerts = await getOpenAlerts(childDevices.map((d) => d.id));
+
+    res.json(childDevices.map((device) => ({
+      ...toDeviceSummary(device),
+      alerts: alerts
+        .filter((alert) => alert.deviceId === device.id)
+        .map((alert) => ({ id: alert.id, type: alert.type, startedAt: alert.startedAt })),
+    })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a child's device, e.g. a lost phone, and sign it out
+router.delete('/:childId/devices/:deviceId', parentOnly, async (req, res, next) => {
+  try {
+    const { childId, deviceId } = req.params;
+
+    const child = await findGuardedChild(req.user!.id, childId, 'manageLimits');
+
+    if (!child) {
+      throw new AppError('Child not found', 404);
+    }
+
+    const device = await db.query.devices.findFirst({
+      where: and(eq(devices.id, deviceId), eq(devices.userId, child.id)),
+    });
+
+    if (!device) {
+      throw new AppError('Device not found', 404);
+    }
+
+    await removeDevice(device);
+
+    res.json({ message: 'Device removed' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Remove a child and erase their data after the grace period (parent only)
+router.delete('/:childId', parentOnly, async (req, res, next) => {
+  try {
+    const { childId } = req.params;
+
+    const child = await findGuardedChild(req.user!.id, childId);
+
+    if (!child) {
+      throw new AppError('Child not found', 404);
+    }
+
+    if (child.parentId !== req.user!.id) {
+      throw new AppError('Only the primary guardian can remove a child', 403);
+    }
+
+    const deletion = await scheduleAccountDeletion(child, req.user!.id);
+
+    res.status(202).json({
+      message: 'Child scheduled for removal',
+      receipt: toDeletionReceipt(deletion),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Undo a pending child removal (parent only)
+router.post('/:childId/restore', parentOnly, async (req, res, next) => {
+  try {
+    const { childId } = req.params;
+
+    const child = await findGuardedChild(req.user!.id, childId);
+
+    if (!child) {
+      throw new AppError('Child not found', 404);
+    }
+
+    if (child.parentId !== req.user!.id) {
+      throw new AppError('Only the primary guardian can restore a child', 403);
+    }
+
+    const deletion = await getScheduledDeletion(child.id);
+    if (!deletion) {
+      throw new AppError('No pending removal', 404);
+    }
+
+    const cancelled = await cancelAccountDeletion(deletion);
+
+    res.json({
+      message: 'Child removal cancelled',
+      receipt: toDeletionReceipt(cancelled),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 export default router;
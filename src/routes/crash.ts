@@ -1,9 +1,14 @@
 import { Router, Request, Response } from 'express';
 import { body, param, query } from 'express-validator';
-import { db, crashEvents, users } from '../db';
+import { db, crashEvents, crashEventLogs, users } from '../db';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
-import { eq, desc } from 'drizzle-orm';
+import { notifyCrashDetected } from '../services/notifications';
+import { publishFamilyEvent } from '../services/events';
+import { CRASH_COUNTDOWN_SECONDS, escalateCrash, logCrashAction } from '../services/emergency';
+import { reverseGeocode } from '../services/geocoding';
+import { findGuardedChild, getGuardedChildren } from '../services/guardianship';
+import { eq, and, desc, asc } from 'drizzle-orm';
 
 const router = Router();
 
@@ -16,24 +21,45 @@ router.post('/detect', validate([
   try {
     const user = req.user!;
     const eventId = generateId();
+    const createdAt = new Date();
     const event = {
       id: eventId,
       userId: user.id,
       latitude: req.body.latitude,
       longitude: req.body.longitude,
+      address: null,
       speed: req.body.speed || null,
       impactForce: req.body.impactForce,
       eventType: 'potential_crash' as const,
       status: 'detected' as const,
       emergencyContacts: null,
+      createdAt,
+      escalateAt: new Date(createdAt.getTime() + CRASH_COUNTDOWN_SECONDS * 1000),
     };
 
     await db.insert(crashEvents).values(event);
+    await logCrashAction(eventId, 'detected', { impactForce: event.impactForce, speed: event.speed });
+    await notifyCrashDetected(user, event);
+    publishFamilyEvent(user.familyId, 'crash', { userId: user.id, event });
 
     res.status(201).json({
       message: 'Crash event recorded',
-      event: { id: eventId, status: 'detected', message: 'Please respond to confirm you are okay' },
+      event: {
+        id: eventId,
+        status: 'detected',
+        message: 'Please respond to confirm you are okay',
+        countdownSeconds: CRASH_COUNTDOWN_SECONDS,
+        escalateAt: event.escalateAt,
+      },
     });
+
+    // The address is looked up after parents were alerted so a slow provider
+    // cannot hold the alert up; escalation reads it from the row
+    reverseGeocode(event.latitude, event.longitude)
+      .then(async (address) => {
+        if (address) await db.update(crashEvents).set({ address }).where(eq(crashEvents.id, eventId));
+      })
+      .catch((error) => console.error('Crash address lookup error:', error));
   } catch (error) {
     console.error('Detect crash error:', error);
     res.status(500).json({ error: 'Failed to record crash event' });
@@ -52,16 +78,24 @@ router.post('/:id/respond', validate([
     if (event.userId !== user.id) return res.status(403).json({ error: 'Access denied' });
     if (event.status !== 'detected') return res.status(400).json({ error: 'Event already responded' });
 
-    const newStatus = req.body.response === 'ok' ? 'user_ok' : 'emergency_sent';
-    const newEventType = req.body.response === 'ok' ? 'false_alarm' : 'confirmed_crash';
+    if (req.body.response === 'help') {
+      const escalated = await escalateCrash(event.id, 'help_requested');
+      if (!escalated) return res.status(400).json({ error: 'Event already responded' });
+      return res.json({ message: 'Emergency contacts notified' });
+    }
 
-    await db.update(crashEvents).set({
-      status: newStatus as 'user_ok' | 'emergency_sent',
-      eventType: newEventType as 'false_alarm' | 'confirmed_crash',
+    // Only while still detected, so an escalation that got there first stands
+    const [updated] = await db.update(crashEvents).set({
+      status: 'user_ok',
+      eventType: 'false_alarm',
       respondedAt: new Date(),
-    }).where(eq(crashEvents.id, req.params.id));
+    }).where(and(eq(crashEvents.id, event.id), eq(crashEvents.status, 'detected'))).returning();
+    if (!updated) return res.status(400).json({ error: 'Event already responded' });
+    await logCrashAction(event.id, 'user_ok');
+
+    publishFamilyEvent(user.familyId, 'crash', { userId: user.id, event: updated });
 
-    res.json({ message: req.body.response === 'ok' ? 'Glad you are okay!' : 'Emergency contacts notified' });
+    res.json({ message: 'Glad you are okay!' });
   } catch (error) {
     console.error('Respond to crash error:', error);
     res.status(500).json({ error: 'Failed to respond to crash event' });
@@ -75,7 +109,7 @@ router.get('/history', validate([query('limit').optional().isInt({ min: 1, max:
 
     let events;
     if (user.role === 'parent') {
-      const children = await db.query.users.findMany({ where: eq(users.parentId, user.id) });
+      const children = await getGuardedChildren(user.id, 'receiveSos');
       const childIds = children.map((c) => c.id);
 
       if (childIds.length === 0) return res.json({ events: [] });
@@ -113,4 +147,26 @@ router.get('/history', validate([query('limit').optional().isInt({ min: 1, max:
   }
 });
 
+// Get a crash event with its audit trail (owner or their guardians)
+router.get('/:id', validate([param('id').notEmpty()]), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const event = await db.query.crashEvents.findFirst({ where: eq(crashEvents.id, req.params.id) });
+    if (!event) return res.status(404).json({ error: 'Crash event not found' });
+
+    const eventUser = await db.query.users.findFirst({ where: eq(users.id, event.userId) });
+    if (event.userId !== user.id && !(await findGuardedChild(user.id, event.userId, 'receiveSos'))) return res.status(403).json({ error: 'Access denied' });
+
+    const log = await db.query.crashEventLogs.findMany({
+      where: eq(crashEventLogs.crashEventId, event.id),
+      orderBy: [asc(crashEventLogs.createdAt)],
+    });
+
+    res.json({ event: { ...event, userName: eventUser?.displayName || 'Unknown' }, log });
+  } catch (error) {
+    console.error('Get crash event error:', error);
+    res.status(500).json({ error: 'Failed to get crash event' });
+  }
+});
+
 export default router;
@@ -0,0 +1,33 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { findJob } from '../jobs';
+
+const router = Router();
+
+// Scheduler calls carry "Authorization: Bearer <CRON_SECRET>" (Vercel Cron does this)
+const cronAuth = (req: Request, _res: Response, next: NextFunction) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+    return next(new AppError('Unauthorized', 401));
+  }
+  next();
+};
+
+const runJob = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const job = findJob(req.params.job);
+    if (!job) {
+      throw new AppError('Job not found', 404);
+    }
+
+    const result = await job.run();
+    res.json({ job: job.name, result });
+  } catch (error) {
+    next(error);
+  }
+};
+
+router.get('/:job', cronAuth, runJob);
+router.post('/:job', cronAuth, runJob);
+
+export default router;
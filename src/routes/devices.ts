@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import { eq } from 'drizzle-orm';
+import { db, devices } from '../db';
+import { validate } from '../middleware/validate';
+import { AppError } from '../middleware/errorHandler';
+import { recordHealthReport, getOpenAlerts } from '../services/deviceHealth';
+import { toDeviceSummary } from '../services/devices';
+
+const router = Router();
+
+// Report the health of the device this session logged in on: location
+// permission, battery and connectivity, or an uninstall heartbeat. Also counts
+// as a check-in.
+router.post(
+  '/health',
+  validate([
+    body('locationPermission').optional().isIn(['always', 'while_in_use', 'denied']),
+    body('locationEnabled').optional().isBoolean(),
+    body('batteryLevel').optional().isInt({ min: 0, max: 100 }),
+    body('isCharging').optional().isBoolean(),
+    body('connectivity').optional().isIn(['wifi', 'cellular', 'none']),
+    body('event').optional().isIn(['heartbeat', 'app_removed']),
+  ]),
+  async (req, res, next) => {
+    try {
+      if (!req.user!.deviceId) {
+        throw new AppError('Log in with a device to report its health', 400);
+      }
+
+      const device = await db.query.devices.findFirst({
+        where: eq(devices.id, req.user!.deviceId),
+      });
+
+      if (!device) {
+        throw new AppError('Device not found', 404);
+      }
+
+      const updated = await recordHealthReport(device, {
+        locationPermission: req.body.locationPermission,
+        locationEnabled: req.body.locationEnabled,
+        batteryLevel: req.body.batteryLevel,
+        isCharging: req.body.isCharging,
+        connectivity: req.body.connectivity,
+        event: req.body.event,
+      });
+
+      const alerts = await getOpenAlerts([updated.id]);
+
+      res.json({
+        device: toDeviceSummary(updated),
+        alerts: alerts.map((alert) => ({ id: alert.id, type: alert.type, startedAt: alert.startedAt })),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
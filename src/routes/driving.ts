@@ -1,13 +1,18 @@
 import { Router, Request, Response } from 'express';
 import { body, param, query } from 'express-validator';
-import { db, drivingSessions, drivingEvents, users } from '../db';
+import { db, drivingSessions, drivingEvents } from '../db';
 import { parentOnly } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
+import { notifyDrivingEvent } from '../services/notifications';
+import { findGuardedChild } from '../services/guardianship';
 import { eq, and, desc, isNull } from 'drizzle-orm';
 
 const router = Router();
 
+// Event types parents are alerted about immediately
+const SEVERE_EVENT_TYPES = ['hard_brake', 'speeding', 'phone_use'];
+
 // Start driving session (child device)
 router.post('/session/start', validate([
   body('latitude').isFloat({ min: -90, max: 90 }),
@@ -173,7 +178,9 @@ router.post('/event', validate([
 
       await db.insert(drivingEvents).values(event);
 
-      // TODO: Send push notification to parents for severe events
+      if (SEVERE_EVENT_TYPES.includes(event.eventType)) {
+        await notifyDrivingEvent(user, event);
+      }
 
       res.status(201).json({
         message: 'Event recorded',
@@ -196,10 +203,8 @@ router.get('/:childId', parentOnly, validate([
       const { childId } = req.params;
       const limit = parseInt(req.query.limit as string) || 50;
 
-      // Verify child belongs to parent
-      const child = await db.query.users.findFirst({
-        where: and(eq(users.id, childId), eq(users.parentId, user.id)),
-      });
+      // Verify the user is the child's guardian
+      const child = await findGuardedChild(user.id, childId, 'viewLocation');
 
       if (!child) {
         return res.status(403).json({ error: 'Child not found or not your child' });
@@ -229,10 +234,8 @@ router.get('/:childId/stats', parentOnly, validate([
       const { childId } = req.params;
       const period = req.query.period as string || 'week';
 
-      // Verify child belongs to parent
-      const child = await db.query.users.findFirst({
-        where: and(eq(users.id, childId), eq(users.parentId, user.id)),
-      });
+      // Verify the user is the child's guardian
+      const child = await findGuardedChild(user.id, childId, 'viewLocation');
 
       if (!child) {
         return res.status(403).json({ error: 'Child not found or not your child' });
@@ -0,0 +1,113 @@
+import { Router, Request, Response } from 'express';
+import { body, param, query } from 'express-validator';
+import { db, emergencyContacts } from '../db';
+import { validate } from '../middleware/validate';
+import { generateId } from '../utils/codes';
+import { findGuardedChild } from '../services/guardianship';
+import { eq, asc } from 'drizzle-orm';
+
+const router = Router();
+
+// Users manage their own contacts; guardians who manage limits also manage their children's
+async function canManage(user: { id: string }, targetUserId: string): Promise<boolean> {
+  if (targetUserId === user.id) return true;
+  return !!(await findGuardedChild(user.id, targetUserId, 'manageLimits'));
+}
+
+router.get('/', validate([query('userId').optional().isString()]), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const targetUserId = (req.query.userId as string) || user.id;
+    if (!(await canManage(user, targetUserId))) return res.status(403).json({ error: 'Access denied' });
+
+    const contacts = await db.query.emergencyContacts.findMany({
+      where: eq(emergencyContacts.userId, targetUserId),
+      orderBy: [asc(emergencyContacts.priority)],
+    });
+    res.json({ contacts });
+  } catch (error) {
+    console.error('Get emergency contacts error:', error);
+    res.status(500).json({ error: 'Failed to get emergency contacts' });
+  }
+});
+
+router.post('/', validate([
+  body('userId').optional().isString(),
+  body('name').trim().isLength({ min: 1, max: 100 }),
+  body('phone').optional().isString().isLength({ max: 30 }),
+  body('email').optional().isEmail(),
+  body('relationship').optional().isString().isLength({ max: 50 }),
+  body('priority').optional().isInt({ min: 0, max: 100 }),
+  body('notifyOnCrash').optional().isBoolean(),
+]), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const targetUserId = req.body.userId || user.id;
+    if (!(await canManage(user, targetUserId))) return res.status(403).json({ error: 'Access denied' });
+    if (!req.body.phone && !req.body.email) return res.status(400).json({ error: 'Phone or email is required' });
+
+    const contact = {
+      id: generateId(),
+      userId: targetUserId,
+      name: req.body.name,
+      phone: req.body.phone || null,
+      email: req.body.email || null,
+      relationship: req.body.relationship || null,
+      priority: req.body.priority ?? 0,
+      notifyOnCrash: req.body.notifyOnCrash ?? true,
+    };
+    await db.insert(emergencyContacts).values(contact);
+    res.status(201).json({ message: 'Emergency contact added', contact });
+  } catch (error) {
+    console.error('Add emergency contact error:', error);
+    res.status(500).json({ error: 'Failed to add emergency contact' });
+  }
+});
+
+router.patch('/:id', validate([
+  param('id').notEmpty(),
+  body('name').optional().trim().isLength({ min: 1, max: 100 }),
+  body('phone').optional({ values: 'null' }).isString().isLength({ max: 30 }),
+  body('email').optional({ values: 'null' }).isEmail(),
+  body('relationship').optional({ values: 'null' }).isString().isLength({ max: 50 }),
+  body('priority').optional().isInt({ min: 0, max: 100 }),
+  body('notifyOnCrash').optional().isBoolean(),
+]), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const contact = await db.query.emergencyContacts.findFirst({ where: eq(emergencyContacts.id, req.params.id) });
+    if (!contact) return res.status(404).json({ error: 'Emergency contact not found' });
+    if (!(await canManage(user, contact.userId))) return res.status(403).json({ error: 'Access denied' });
+
+    const updates: Record<string, any> = {};
+    for (const field of ['name', 'phone', 'email', 'relationship', 'priority', 'notifyOnCrash']) {
+      if (req.body[field] !== undefined) updates[field] = req.body[field];
+    }
+    const updated = { ...contact, ...updates };
+    if (!updated.phone && !updated.email) return res.status(400).json({ error: 'Phone or email is required' });
+
+    updates.updatedAt = new Date();
+    await db.update(emergencyContacts).set(updates).where(eq(emergencyContacts.id, req.params.id));
+    res.json({ message: 'Emergency contact updated', contact: { ...updated, updatedAt: updates.updatedAt } });
+  } catch (error) {
+    console.error('Update emergency contact error:', error);
+    res.status(500).json({ error: 'Failed to update emergency contact' });
+  }
+});
+
+router.delete('/:id', validate([param('id').notEmpty()]), async (req: Request, res: Response) => {
+  try {
+    const user = req.user!;
+    const contact = await db.query.emergencyContacts.findFirst({ where: eq(emergencyContacts.id, req.params.id) });
+    if (!contact) return res.status(404).json({ error: 'Emergency contact not found' });
+    if (!(await canManage(user, contact.userId))) return res.status(403).json({ error: 'Access denied' });
+
+    await db.delete(emergencyContacts).where(eq(emergencyContacts.id, req.params.id));
+    res.json({ message: 'Emergency contact deleted' });
+  } catch (error) {
+    console.error('Delete emergency contact error:', error);
+    res.status(500).json({ error: 'Failed to delete emergency contact' });
+  }
+});
+
+export default router;
@@ -0,0 +1,123 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { eq } from 'drizzle-orm';
+import { db, users, User } from '../db';
+import { AuthenticatedUser } from '../middleware/auth';
+import { getEventBus, FamilyEvent, FamilyEventType } from '../services/events';
+import { getLocationVisibleIds } from '../services/guardianship';
+import { getActiveSession } from '../services/sessions';
+import { getAccessDenial, hasFeature, isLimitedRole, MemberFeature } from '../services/memberAccess';
+
+const router = Router();
+
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+type StreamMember = Pick<AuthenticatedUser, 'id' | 'role' | 'familyId' | 'allowedFeatures' | 'pendingApproval'>;
+
+// Who may receive each event: the feature it belongs to (null for parts of
+// the app only parents and children use) and, for events that give away
+// where a member is, that member
+interface EventAccess {
+  feature: MemberFeature | null;
+  locationSubject?: (data: FamilyEvent['data']) => string | undefined;
+}
+
+const EVENT_ACCESS: Record<FamilyEventType, EventAccess> = {
+  location: { feature: 'location', locationSubject: (data) => data.userId },
+  presence: { feature: 'location', locationSubject: (data) => data.userId },
+  geofence: { feature: 'location', locationSubject: (data) => data.childId },
+  status: { feature: 'status', locationSubject: (data) => data.userId },
+  sos: { feature: 'sos', locationSubject: (data) => data.session?.userId },
+  crash: { feature: null, locationSubject: (data) => data.userId },
+  chat_message: { feature: 'chat' },
+  ping_acknowledged: { feature: null },
+};
+
+function canReceive(member: StreamMember, event: FamilyEvent, locationVisibleIds: Set<string>): boolean {
+  const access = EVENT_ACCESS[event.type];
+  const allowed = access.feature
+    ? hasFeature(member, access.feature)
+    : !isLimitedRole(member.role) && !member.pendingApproval;
+  if (!allowed) return false;
+
+  const subjectId = access.locationSubject?.(event.data);
+  return !subjectId || locationVisibleIds.has(subjectId);
+}
+
+// The user as they are now, or null once the stream must close: the session
+// was revoked, or the user left the family or lost access to the stream
+async function getStreamingUser(streamUser: AuthenticatedUser): Promise<User | null> {
+  const session = await getActiveSession(streamUser.sessionId);
+  if (!session) return null;
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, streamUser.id),
+  });
+
+  const canStream = !!user &&
+    user.familyId === streamUser.familyId &&
+    user.role === streamUser.role &&
+    hasFeature(user, 'location') &&
+    !(await getAccessDenial(user));
+  return canStream ? user : null;
+}
+
+// Server-Sent Events stream of the caller's family events
+router.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const user = req.user!;
+
+    if (!user.familyId) {
+      return res.status(400).json({ error: 'You must be in a family' });
+    }
+
+    // Events are filtered by feature, and those about where a member is by
+    // whether the caller may see that member's location
+    let member: StreamMember = user;
+    let locationVisibleIds = await getLocationVisibleIds(user);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    res.write(`event: ready\ndata: ${JSON.stringify({ familyId: user.familyId })}\n\n`);
+
+    const unsubscribe = getEventBus().subscribe(user.familyId, (event: FamilyEvent) => {
+      if (!canReceive(member, event, locationVisibleIds)) return;
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    const close = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    // Comment lines keep proxies from closing an idle stream. Access is only
+    // checked at connect by the middleware, so each heartbeat checks it again
+    // (revoked session, left the family, membership changed) along with
+    // features and guardianships.
+    const heartbeat = setInterval(async () => {
+      try {
+        const current = await getStreamingUser(user);
+        if (!current) {
+          close();
+          res.end();
+          return;
+        }
+        member = current;
+        locationVisibleIds = await getLocationVisibleIds(user);
+      } catch (error) {
+        console.error('Event stream refresh error:', error);
+      }
+      // The client may have gone while the checks ran
+      if (!res.destroyed) res.write(': heartbeat\n\n');
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on('close', close);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export default router;
@@ -0,0 +1,126 @@
+import { Router } from 'express';
+import { body, param } from 'express-validator';
+import { eq, and, desc } from 'drizzle-orm';
+import { db, dataExports, DataExport } from '../db';
+import { validate } from '../middleware/validate';
+import { AppError } from '../middleware/errorHandler';
+import { requestDataExport, processDataExport } from '../services/dataExport';
+
+const router = Router();
+
+// Public view of an export job; the archive itself is only served by /download
+function describeExport(exportJob: Omit<DataExport, 'archive'>) {
+  return {
+    id: exportJob.id,
+    scope: exportJob.scope,
+    status: exportJob.status,
+    sizeBytes: exportJob.sizeBytes,
+    error: exportJob.error,
+    createdAt: exportJob.createdAt,
+    completedAt: exportJob.completedAt,
+    expiresAt: exportJob.expiresAt,
+    downloadUrl: exportJob.status === 'ready' ? `/api/exports/${exportJob.id}/download` : null,
+  };
+}
+
+async function findOwnExport(id: string, userId: string) {
+  const exportJob = await db.query.dataExports.findFirst({
+    where: and(eq(dataExports.id, id), eq(dataExports.requestedById, userId)),
+  });
+
+  if (!exportJob) {
+    throw new AppError('Export not found', 404);
+  }
+
+  return exportJob;
+}
+
+// Request an export. Parents in a family get the whole family's data by
+// default; children (and anyone asking for scope=self) get only their own.
+router.post(
+  '/',
+  validate([
+    body('scope').optional().isIn(['family', 'self']),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = req.user!;
+      const canExportFamily = user.role === 'parent' && !!user.familyId;
+      const scope = req.body.scope || (canExportFamily ? 'family' : 'self');
+
+      if (scope === 'family' && !canExportFamily) {
+        throw new AppError('Only parents can export family data', 403);
+      }
+
+      const { exportJob, created } = await requestDataExport(user, scope);
+
+      res.status(created ? 202 : 200).json(describeExport(exportJob));
+
+      // Start right away on long-lived servers; the data-export job picks it
+      // up otherwise
+      if (created) {
+        processDataExport(exportJob.id).catch((error) => {
+          console.error(`Data export ${exportJob.id} failed:`, error);
+        });
+      }
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// List my exports
+router.get('/', async (req, res, next) => {
+  try {
+    const exportJobs = await db.query.dataExports.findMany({
+      where: eq(dataExports.requestedById, req.user!.id),
+      columns: { archive: false },
+      orderBy: desc(dataExports.createdAt),
+    });
+
+    res.json(exportJobs.map(describeExport));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get export status
+router.get(
+  '/:id',
+  validate([param('id').notEmpty()]),
+  async (req, res, next) => {
+    try {
+      const exportJob = await findOwnExport(req.params.id, req.user!.id);
+      res.json(describeExport(exportJob));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Download the archive
+router.get(
+  '/:id/download',
+  validate([param('id').notEmpty()]),
+  async (req, res, next) => {
+    try {
+      const exportJob = await findOwnExport(req.params.id, req.user!.id);
+
+      if (exportJob.status === 'expired' || (exportJob.expiresAt && exportJob.expiresAt < new Date())) {
+        throw new AppError('Export has expired', 410);
+      }
+      if (exportJob.status !== 'ready' || !exportJob.archive) {
+        throw new AppError('Export is not ready yet', 409);
+      }
+
+      const day = exportJob.createdAt.toISOString().split('T')[0];
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="praesidium-export-${day}.zip"`);
+      res.send(exportJob.archive);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -1,17 +1,26 @@
 import { Router } from 'express';
-import { body } from 'express-validator';
+import { body, query } from 'express-validator';
 import { eq, desc, and } from 'drizzle-orm';
-import { db, users, families, favoritePlaces, locations, statusUpdates } from '../db';
+import { db, users, families, favoritePlaces, locations, statusUpdates, membershipRequests } from '../db';
 import { validate } from '../middleware/validate';
 import { AppError } from '../middleware/errorHandler';
 import { createInviteCode, generateId } from '../utils/codes';
-import { parentOnly } from '../middleware/auth';
+import { parentOnly, fullMemberOnly, requireFeature } from '../middleware/auth';
+import { isValidTimezone, validateSchedule } from '../utils/schedule';
+import { previewFamilyRetention } from '../services/retention';
+import { reverseGeocode } from '../services/geocoding';
+import { revokeFamilyGuardianships, getLocationVisibleIds, withoutLocation } from '../services/guardianship';
+import { requestOrAdmit, decideMembershipRequest } from '../services/membership';
+import { LIMITED_ROLES, MEMBER_FEATURES, hasFeature, isLimitedRole } from '../services/memberAccess';
+import { MAX_INVITE_USES, createInvite, listOutstandingInvites, revokeInvite, claimInvite } from '../services/invites';
+import { revokeAllSessions } from '../services/sessions';
 
 const router = Router();
 
 // Create family
 router.post(
   '/',
+  fullMemberOnly,
   validate([
     body('name').trim().isLength({ min: 1, max: 50 }),
   ]),
@@ -94,8 +103,10 @@ router.get('/', async (req, res, next) => {
       where: eq(favoritePlaces.familyId, user.familyId),
     });
 
+    // Caregivers and guests must not pass on the family's join code
     res.json({
       ...family,
+      inviteCode: isLimitedRole(user.role) ? null : family!.inviteCode,
       members: members.map(m => ({
         id: m.id,
         displayName: m.displayName,
@@ -103,7 +114,7 @@ router.get('/', async (req, res, next) => {
         avatar: m.avatar,
         lastSeen: m.lastSeen,
       })),
-      favoritePlaces: places,
+      favoritePlaces: hasFeature(user, 'places') ? places : [],
     });
   } catch (error) {
     next(error);
@@ -113,6 +124,7 @@ router.get('/', async (req, res, next) => {
 // Join family with invite code
 router.post(
   '/join',
+  fullMemberOnly,
   validate([
     body('inviteCode').trim().isLength({ min: 6, max: 6 }).toUpperCase(),
   ]),
@@ -130,19 +142,35 @@ router.post(
         throw new AppError('You are already in a family', 400);
       }
 
-      // Find family by invite code
+      // Role-scoped invites first, then the family's legacy permanent code
+      const invite = await claimInvite(inviteCode, { role: user!.role, email: user!.email });
       const family = await db.query.families.findFirst({
-        where: eq(families.inviteCode, inviteCode.toUpperCase()),
+        where: invite
+          ? eq(families.id, invite.familyId)
+          : eq(families.inviteCode, inviteCode.toUpperCase()),
       });
 
       if (!family) {
         throw new AppError('Invalid invite code', 400);
       }
 
-      // Add user to family
-      await db.update(users)
-        .set({ familyId: family.id, updatedAt: new Date() })
-        .where(eq(users.id, userId));
+      // Add user to family, remembering who invited them; a child without a
+      // parent is paired with the inviting parent. Families that require
+      // approval get a pending request instead.
+      const { request } = await requestOrAdmit(user!, {
+        familyId: family.id,
+        parentId: invite?.createdById,
+        invitedById: invite?.createdById,
+        inviteId: invite?.id,
+      }, 'join');
+
+      if (request) {
+        res.status(202).json({
+          message: 'Waiting for a parent to approve',
+          request: { id: request.id, familyId: family.id, familyName: family.name, status: request.status },
+        });
+        return;
+      }
 
       // Get updated members
       const members = await db.query.users.findMany({
@@ -185,6 +213,8 @@ router.post('/leave', async (req, res, next) => {
       .set({ familyId: null, updatedAt: new Date() })
       .where(eq(users.id, userId));
 
+    await revokeFamilyGuardianships(userId);
+
     // Check if family is empty and delete if so
     const remainingMembers = await db.query.users.findMany({
       where: eq(users.familyId, familyId),
@@ -200,7 +230,8 @@ router.post('/leave', async (req, res, next) => {
   }
 });
 
-// Regenerate invite code (parent only)
+// Regenerate the family's permanent invite code (parent only). Legacy: the
+// code admits anyone as a full member; prefer POST /invites.
 router.post('/regenerate-code', parentOnly, async (req, res, next) => {
   try {
     const user = await db.query.users.findFirst({
@@ -223,6 +254,365 @@ router.post('/regenerate-code', parentOnly, async (req, res, next) => {
   }
 });
 
+// Update family settings (parent only)
+router.patch(
+  '/settings',
+  parentOnly,
+  validate([
+    body('timezone').optional().custom(isValidTimezone).withMessage('Invalid IANA timezone'),
+    body('rawRetentionDays').optional().isInt({ min: 1, max: 365 }),
+    body('trackRetentionDays').optional().isInt({ min: 1, max: 3650 }),
+    body('requireApproval').optional().isBoolean().toBoolean(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = await db.query.users.findFirst({
+        where: eq(users.id, req.user!.id),
+      });
+
+      if (!user?.familyId) {
+        throw new AppError('You are not in a family', 400);
+      }
+
+      const family = await db.query.families.findFirst({
+        where: eq(families.id, user.familyId),
+      });
+
+      const rawRetentionDays = req.body.rawRetentionDays ?? family!.rawRetentionDays;
+      const trackRetentionDays = req.body.trackRetentionDays ?? family!.trackRetentionDays;
+      if (rawRetentionDays > trackRetentionDays) {
+        throw new AppError('rawRetentionDays cannot exceed trackRetentionDays', 400);
+      }
+
+      const updates: Record<string, any> = { updatedAt: new Date() };
+      if (req.body.timezone !== undefined) updates.timezone = req.body.timezone;
+      if (req.body.rawRetentionDays !== undefined) updates.rawRetentionDays = rawRetentionDays;
+      if (req.body.trackRetentionDays !== undefined) updates.trackRetentionDays = trackRetentionDays;
+      if (req.body.requireApproval !== undefined) updates.requireApproval = req.body.requireApproval;
+
+      await db.update(families)
+        .set(updates)
+        .where(eq(families.id, user.familyId));
+
+      res.json({ ...family, ...updates });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Preview what a retention policy would delete (parent only, nothing is written)
+router.get(
+  '/retention/preview',
+  parentOnly,
+  validate([
+    query('rawRetentionDays').optional().isInt({ min: 1, max: 365 }),
+    query('trackRetentionDays').optional().isInt({ min: 1, max: 3650 }),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = await db.query.users.findFirst({
+        where: eq(users.id, req.user!.id),
+      });
+
+      if (!user?.familyId) {
+        throw new AppError('You are not in a family', 400);
+      }
+
+      const family = await db.query.families.findFirst({
+        where: eq(families.id, user.familyId),
+      });
+
+      const policy = {
+        rawRetentionDays: req.query.rawRetentionDays
+          ? parseInt(req.query.rawRetentionDays as string)
+          : family!.rawRetentionDays,
+        trackRetentionDays: req.query.trackRetentionDays
+          ? parseInt(req.query.trackRetentionDays as string)
+          : family!.trackRetentionDays,
+      };
+
+      if (policy.rawRetentionDays > policy.trackRetentionDays) {
+        throw new AppError('rawRetentionDays cannot exceed trackRetentionDays', 400);
+      }
+
+      const previews = await previewFamilyRetention(user.familyId, policy);
+
+      res.json({
+        policy,
+        members: previews,
+        totalPurged: previews.reduce((sum, p) => sum + p.purged, 0),
+        totalCompactable: previews.reduce((sum, p) => sum + p.compactable, 0),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+const scheduleValidator = (schedule: unknown) => {
+  const error = validateSchedule(schedule);
+  if (error) throw new Error(error);
+  return true;
+};
+
+// Create an invite (parent only). Codes expire, can be limited to a number of
+// uses and to one email address, and only admit the given role. Caregiver and
+// guest invites also carry the features, schedule and end date of their access;
+// guests always have an end date.
+router.post(
+  '/invites',
+  parentOnly,
+  validate([
+    body('role').isIn(['parent', 'child', ...LIMITED_ROLES]),
+    body('email').optional({ values: 'null' }).isEmail().normalizeEmail(),
+    body('maxUses').optional().isInt({ min: 1, max: MAX_INVITE_USES }),
+    body('expiresInHours').optional().isInt({ min: 1, max: 24 * 30 }),
+    body('features').optional().isArray(),
+    body('features.*').isIn(MEMBER_FEATURES),
+    body('schedule').optional({ values: 'null' }).custom(scheduleValidator),
+    body('accessExpiresAt').optional({ values: 'null' }).isISO8601(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = req.user!;
+
+      if (!user.familyId) {
+        throw new AppError('You are not in a family', 400);
+      }
+
+      const accessExpiresAt = req.body.accessExpiresAt ? new Date(req.body.accessExpiresAt) : null;
+      if (req.body.role === 'guest' && !accessExpiresAt) {
+        throw new AppError('Guest access needs an end date', 400);
+      }
+      if (accessExpiresAt && accessExpiresAt <= new Date()) {
+        throw new AppError('accessExpiresAt must be in the future', 400);
+      }
+
+      const invite = await createInvite({ id: user.id, familyId: user.familyId }, {
+        role: req.body.role,
+        email: req.body.email,
+        maxUses: req.body.maxUses,
+        expiresInHours: req.body.expiresInHours,
+        allowedFeatures: req.body.features,
+        accessSchedule: req.body.schedule,
+        accessExpiresAt,
+      });
+
+      res.status(201).json(invite);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// List invites that can still be redeemed (parent only)
+router.get('/invites', parentOnly, async (req, res, next) => {
+  try {
+    const user = req.user!;
+
+    if (!user.familyId) {
+      throw new AppError('You are not in a family', 400);
+    }
+
+    const invites = await listOutstandingInvites(user.familyId);
+
+    const creators = new Map<string, string>();
+    for (const invite of invites) {
+      if (!creators.has(invite.createdById)) {
+        const creator = await db.query.users.findFirst({
+          where: eq(users.id, invite.createdById),
+        });
+        creators.set(invite.createdById, creator?.displayName || 'Unknown');
+      }
+    }
+
+    res.json(invites.map((invite) => ({
+      ...invite,
+      createdBy: { displayName: creators.get(invite.createdById) },
+    })));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Revoke an invite (parent only)
+router.delete('/invites/:id', parentOnly, async (req, res, next) => {
+  try {
+    const user = req.user!;
+
+    if (!user.familyId) {
+      throw new AppError('You are not in a family', 400);
+    }
+
+    const invite = await revokeInvite(user.familyId, req.params.id);
+
+    if (!invite) {
+      throw new AppError('Invite not found', 404);
+    }
+
+    res.json({ message: 'Invite revoked' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Join and pairing requests waiting for approval, or past ones (parent only)
+router.get(
+  '/requests',
+  parentOnly,
+  validate([
+    query('status').optional().isIn(['pending', 'approved', 'rejected']),
+  ]),
+  async (req, res, next) => {
+    try {
+      const user = req.user!;
+
+      if (!user.familyId) {
+        throw new AppError('You are not in a family', 400);
+      }
+
+      const status = (req.query.status as 'pending' | 'approved' | 'rejected') || 'pending';
+      const requests = await db.query.membershipRequests.findMany({
+        where: and(eq(membershipRequests.familyId, user.familyId), eq(membershipRequests.status, status)),
+        orderBy: desc(membershipRequests.createdAt),
+      });
+
+      const result = await Promise.all(requests.map(async (request) => {
+        const requester = await db.query.users.findFirst({
+          where: eq(users.id, request.userId),
+        });
+        return {
+          ...request,
+          user: requester
+            ? { id: requester.id, displayName: requester.displayName, email: requester.email, role: requester.role }
+            : null,
+        };
+      }));
+
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Approve a pending request (parent only)
+router.post('/requests/:id/approve', parentOnly, async (req, res, next) => {
+  try {
+    const user = req.user!;
+
+    if (!user.familyId) {
+      throw new AppError('You are not in a family', 400);
+    }
+
+    const request = await decideMembershipRequest(req.params.id, user.familyId, user.id, true);
+
+    if (!request) {
+      throw new AppError('Request not found or already decided', 404);
+    }
+
+    res.json(request);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Reject a pending request (parent only)
+router.post('/requests/:id/reject', parentOnly, async (req, res, next) => {
+  try {
+    const user = req.user!;
+
+    if (!user.familyId) {
+      throw new AppError('You are not in a family', 400);
+    }
+
+    const request = await decideMembershipRequest(req.params.id, user.familyId, user.id, false);
+
+    if (!request) {
+      throw new AppError('Request not found or already decided', 404);
+    }
+
+    res.json(request);
+  } catch (error) {
+    next(error);
+  }
+});
+
+async function findLimitedMember(familyId: string | null, userId: string) {
+  const member = familyId
+    ? await db.query.users.findFirst({
+      where: and(eq(users.id, userId), eq(users.familyId, familyId)),
+    })
+    : undefined;
+
+  if (!member || !isLimitedRole(member.role)) {
+    throw new AppError('Caregiver or guest not found', 404);
+  }
+
+  return member;
+}
+
+// Change a caregiver's or guest's features, schedule or end date (parent only)
+router.patch(
+  '/members/:userId/access',
+  parentOnly,
+  validate([
+    body('features').optional().isArray(),
+    body('features.*').isIn(MEMBER_FEATURES),
+    body('schedule').optional({ values: 'null' }).custom(scheduleValidator),
+    body('accessExpiresAt').optional({ values: 'null' }).isISO8601(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const member = await findLimitedMember(req.user!.familyId, req.params.userId);
+
+      const updates: Record<string, any> = { updatedAt: new Date() };
+      if (req.body.features !== undefined) updates.allowedFeatures = [...new Set(req.body.features)];
+      if (req.body.schedule !== undefined) updates.accessSchedule = req.body.schedule;
+      if (req.body.accessExpiresAt !== undefined) {
+        updates.accessExpiresAt = req.body.accessExpiresAt ? new Date(req.body.accessExpiresAt) : null;
+      }
+
+      if (member.role === 'guest' && updates.accessExpiresAt === null) {
+        throw new AppError('Guest access needs an end date', 400);
+      }
+
+      await db.update(users)
+        .set(updates)
+        .where(eq(users.id, member.id));
+
+      const updated = { ...member, ...updates };
+      res.json({
+        id: updated.id,
+        displayName: updated.displayName,
+        role: updated.role,
+        allowedFeatures: updated.allowedFeatures || [],
+        accessSchedule: updated.accessSchedule,
+        accessExpiresAt: updated.accessExpiresAt,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// End a caregiver's or guest's access now (parent only)
+router.delete('/members/:userId', parentOnly, async (req, res, next) => {
+  try {
+    const member = await findLimitedMember(req.user!.familyId, req.params.userId);
+
+    await db.update(users)
+      .set({ familyId: null, accessExpiresAt: new Date(), updatedAt: new Date() })
+      .where(eq(users.id, member.id));
+    await revokeAllSessions(member.id);
+
+    res.json({ message: 'Member removed' });
+  } catch (error) {
+    next(error);
+  }
+});
+
 // Get family members with latest location
 router.get('/members', async (req, res, next) => {
   try {
@@ -238,16 +628,25 @@ router.get('/members', async (req, res, next) => {
       where: eq(users.familyId, user.familyId),
     });
 
-    const membersWithLocation = await Promise.all(members.map(async (member) => {
-      const lastLocation = await db.query.locations.findFirst({
-        where: eq(locations.userId, member.id),
-        orderBy: desc(locations.timestamp),
-      });
+    // Children's locations are only shown to guardians with viewLocation
+    const locationVisibleIds = hasFeature(user, 'location') ? await getLocationVisibleIds(user) : new Set<string>();
+    const canSeeStatus = hasFeature(user, 'status');
 
-      const lastStatus = await db.query.statusUpdates.findFirst({
-        where: eq(statusUpdates.userId, member.id),
-        orderBy: desc(statusUpdates.timestamp),
-      });
+    const membersWithLocation = await Promise.all(members.map(async (member) => {
+      const canSeeLocation = locationVisibleIds.has(member.id);
+      const lastLocation = canSeeLocation
+        ? await db.query.locations.findFirst({
+          where: eq(locations.userId, member.id),
+          orderBy: desc(locations.timestamp),
+        })
+        : undefined;
+
+      const lastStatus = canSeeStatus
+        ? await db.query.statusUpdates.findFirst({
+          where: eq(statusUpdates.userId, member.id),
+          orderBy: desc(statusUpdates.timestamp),
+        })
+        : undefined;
 
       return {
         id: member.id,
@@ -255,8 +654,18 @@ router.get('/members', async (req, res, next) => {
         role: member.role,
         avatar: member.avatar,
         lastSeen: member.lastSeen,
-        lastLocation: lastLocation || null,
-        lastStatus: lastStatus || null,
+        lastLocation: lastLocation
+          ? { ...lastLocation, address: await reverseGeocode(lastLocation.latitude, lastLocation.longitude) }
+          : null,
+        lastStatus: lastStatus ? (canSeeLocation ? lastStatus : withoutLocation(lastStatus)) : null,
+        offline: canSeeLocation ? !!member.offlineSince : null,
+        offlineSince: canSeeLocation ? member.offlineSince : null,
+        invitedById: member.invitedById,
+        ...(isLimitedRole(member.role) ? {
+          allowedFeatures: member.allowedFeatures || [],
+          accessSchedule: member.accessSchedule,
+          accessExpiresAt: member.accessExpiresAt,
+        } : {}),
       };
     }));
 
@@ -269,6 +678,7 @@ router.get('/members', async (req, res, next) => {
 // Add favorite place
 router.post(
   '/places',
+  requireFeature('places'),
   validate([
     body('name').trim().isLength({ min: 1, max: 50 }),
     body('latitude').isFloat({ min: -90, max: 90 }),
@@ -315,7 +725,7 @@ router.post(
 );
 
 // Get favorite places
-router.get('/places', async (req, res, next) => {
+router.get('/places', requireFeature('places'), async (req, res, next) => {
   try {
     const user = await db.query.users.findFirst({
       where: eq(users.id, req.user!.id),
@@ -347,7 +757,7 @@ router.get('/places', async (req, res, next) => {
 });
 
 // Delete favorite place
-router.delete('/places/:id', async (req, res, next) => {
+router.delete('/places/:id', requireFeature('places'), async (req, res, next) => {
   try {
     const { id } = req.params;
     const userId = req.user!.id;
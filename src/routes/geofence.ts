@@ -4,26 +4,47 @@ import { db, geofences, geofenceEvents, users } from '../db';
 import { authMiddleware, parentOnly } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
-import { isInsideGeofence, isGeofenceActiveNow } from '../utils/geofence';
-import { eq, and, desc } from 'drizzle-orm';
+import { validatePolygon, getPolygonBounds } from '../utils/geofence';
+import { validateSchedule } from '../utils/schedule';
+import { evaluateLocation } from '../services/geofenceEngine';
+import { findGuardedChild, getLocationVisibleIds } from '../services/guardianship';
+import { eq, and, desc, inArray } from 'drizzle-orm';
 
 const router = Router();
 
+const polygonValidator = (polygon: unknown) => {
+  const error = validatePolygon(polygon);
+  if (error) throw new Error(error);
+  return true;
+};
+
+const scheduleValidator = (schedule: unknown) => {
+  const error = validateSchedule(schedule);
+  if (error) throw new Error(error);
+  return true;
+};
+
+const isPolygonRequest = body('type').equals('polygon');
+const isCircleRequest = body('type').not().equals('polygon');
+
 // Create geofence (parent only)
 router.post(
   '/',
   parentOnly,
   validate([
     body('name').notEmpty().withMessage('Name is required'),
-    body('latitude').isFloat({ min: -90, max: 90 }).withMessage('Valid latitude required'),
-    body('longitude').isFloat({ min: -180, max: 180 }).withMessage('Valid longitude required'),
-    body('radius').isInt({ min: 50, max: 5000 }).withMessage('Radius must be between 50-5000 meters'),
+    body('type').optional().isIn(['circle', 'polygon']),
+    body('latitude').if(isCircleRequest).isFloat({ min: -90, max: 90 }).withMessage('Valid latitude required'),
+    body('longitude').if(isCircleRequest).isFloat({ min: -180, max: 180 }).withMessage('Valid longitude required'),
+    body('radius').if(isCircleRequest).isInt({ min: 50, max: 5000 }).withMessage('Radius must be between 50-5000 meters'),
+    body('polygon').if(isPolygonRequest).custom(polygonValidator),
     body('childId').optional().isString(),
     body('icon').optional().isString(),
     body('color').optional().isString(),
     body('notifyEnter').optional().isBoolean(),
     body('notifyExit').optional().isBoolean(),
-    body('schedule').optional().isObject(),
+    body('dwellMinutes').optional().isInt({ min: 1, max: 1440 }),
+    body('schedule').optional().custom(scheduleValidator),
   ]),
   async (req: Request, res: Response) => {
     try {
@@ -35,14 +56,18 @@ router.post(
 
       // If childId is provided, verify it's the parent's child
       if (req.body.childId) {
-        const child = await db.query.users.findFirst({
-          where: and(eq(users.id, req.body.childId), eq(users.parentId, user.id)),
-        });
+        const child = await findGuardedChild(user.id, req.body.childId, 'viewLocation');
         if (!child) {
           return res.status(403).json({ error: 'Child not found or not your child' });
         }
       }
 
+      // Polygons store their centroid and enclosing radius in the circle columns
+      const isPolygon = req.body.type === 'polygon';
+      const shape = isPolygon
+        ? { ...getPolygonBounds(req.body.polygon), polygon: req.body.polygon }
+        : { latitude: req.body.latitude, longitude: req.body.longitude, radius: req.body.radius, polygon: null };
+
       const geofenceId = generateId();
       const newGeofence = {
         id: geofenceId,
@@ -50,14 +75,13 @@ router.post(
         familyId: user.familyId,
         childId: req.body.childId || null,
         name: req.body.name,
-        latitude: req.body.latitude,
-        longitude: req.body.longitude,
-        radius: req.body.radius,
-        type: 'circle' as const,
+        ...shape,
+        type: isPolygon ? 'polygon' as const : 'circle' as const,
         icon: req.body.icon || null,
         color: req.body.color || null,
         notifyEnter: req.body.notifyEnter ?? true,
         notifyExit: req.body.notifyExit ?? true,
+        dwellMinutes: req.body.dwellMinutes || null,
         isActive: true,
         schedule: req.body.schedule || null,
       };
@@ -133,10 +157,12 @@ router.patch(
     body('latitude').optional().isFloat({ min: -90, max: 90 }),
     body('longitude').optional().isFloat({ min: -180, max: 180 }),
     body('radius').optional().isInt({ min: 50, max: 5000 }),
+    body('polygon').optional({ values: 'null' }).custom(polygonValidator),
     body('isActive').optional().isBoolean(),
     body('notifyEnter').optional().isBoolean(),
     body('notifyExit').optional().isBoolean(),
-    body('schedule').optional(),
+    body('dwellMinutes').optional({ values: 'null' }).isInt({ min: 1, max: 1440 }),
+    body('schedule').optional().custom(scheduleValidator),
   ]),
   async (req: Request, res: Response) => {
     try {
@@ -155,14 +181,28 @@ router.patch(
 
       const updates: Record<string, any> = {};
       if (req.body.name !== undefined) updates.name = req.body.name;
-      if (req.body.latitude !== undefined) updates.latitude = req.body.latitude;
-      if (req.body.longitude !== undefined) updates.longitude = req.body.longitude;
-      if (req.body.radius !== undefined) updates.radius = req.body.radius;
+      const circleChanged = req.body.latitude !== undefined || req.body.longitude !== undefined || req.body.radius !== undefined;
+      if (req.body.polygon) {
+        Object.assign(updates, getPolygonBounds(req.body.polygon));
+        updates.polygon = req.body.polygon;
+        updates.type = 'polygon';
+      } else if (circleChanged || req.body.polygon === null) {
+        // Circle fields or polygon: null turn a polygon back into a circle,
+        // starting from the circle around its vertices
+        if (geofence.type === 'polygon') {
+          updates.polygon = null;
+          updates.type = 'circle';
+        }
+        if (req.body.latitude !== undefined) updates.latitude = req.body.latitude;
+        if (req.body.longitude !== undefined) updates.longitude = req.body.longitude;
+        if (req.body.radius !== undefined) updates.radius = req.body.radius;
+      }
       if (req.body.icon !== undefined) updates.icon = req.body.icon;
       if (req.body.color !== undefined) updates.color = req.body.color;
       if (req.body.isActive !== undefined) updates.isActive = req.body.isActive;
       if (req.body.notifyEnter !== undefined) updates.notifyEnter = req.body.notifyEnter;
       if (req.body.notifyExit !== undefined) updates.notifyExit = req.body.notifyExit;
+      if (req.body.dwellMinutes !== undefined) updates.dwellMinutes = req.body.dwellMinutes;
       if (req.body.schedule !== undefined) updates.schedule = req.body.schedule;
       updates.updatedAt = new Date();
 
@@ -235,8 +275,13 @@ router.get(
         return res.status(403).json({ error: 'Access denied' });
       }
 
+      // Only children whose location the caller may see
+      const locationVisibleIds = await getLocationVisibleIds(user);
       const events = await db.query.geofenceEvents.findMany({
-        where: eq(geofenceEvents.geofenceId, req.params.id),
+        where: and(
+          eq(geofenceEvents.geofenceId, req.params.id),
+          inArray(geofenceEvents.childId, [...locationVisibleIds])
+        ),
         orderBy: [desc(geofenceEvents.timestamp)],
         limit,
       });
@@ -268,117 +313,25 @@ router.post(
   validate([
     body('latitude').isFloat({ min: -90, max: 90 }).withMessage('Valid latitude required'),
     body('longitude').isFloat({ min: -180, max: 180 }).withMessage('Valid longitude required'),
+    body('accuracy').optional().isFloat({ min: 0 }),
   ]),
   async (req: Request, res: Response) => {
     try {
       const user = req.user!;
-      const { latitude, longitude } = req.body;
+      const { latitude, longitude, accuracy } = req.body;
 
       if (!user.familyId) {
-        return res.json({ events: [], currentZones: [] });
+        return res.json({ events: [], currentZones: [], reminders: [] });
       }
 
-      // Get active geofences for this user's family
-      const familyGeofences = await db.query.geofences.findMany({
-        where: and(
-          eq(geofences.familyId, user.familyId),
-          eq(geofences.isActive, true)
-        ),
+      const { events, currentZones, reminders } = await evaluateLocation(user, {
+        latitude,
+        longitude,
+        accuracy,
+        timestamp: new Date(),
       });
 
-      // Filter geofences that apply to this child
-      const applicableGeofences = familyGeofences.filter(
-        (g) => !g.childId || g.childId === user.id
-      );
-
-      // Filter by schedule
-      const activeGeofences = applicableGeofences.filter((g) =>
-        isGeofenceActiveNow(g.schedule)
-      );
-
-      // Get last known geofence state for this child
-      const lastEvents = await db.query.geofenceEvents.findMany({
-        where: eq(geofenceEvents.childId, user.id),
-        orderBy: [desc(geofenceEvents.timestamp)],
-        limit: activeGeofences.length,
-      });
-
-      // Build map of last known state per geofence
-      const lastStateMap = new Map<string, 'enter' | 'exit'>();
-      for (const event of lastEvents) {
-        if (!lastStateMap.has(event.geofenceId) && (event.eventType === 'enter' || event.eventType === 'exit')) {
-          lastStateMap.set(event.geofenceId, event.eventType);
-        }
-      }
-
-      const events: Array<{
-        geofenceId: string;
-        geofenceName: string;
-        eventType: 'enter' | 'exit';
-        timestamp: Date;
-      }> = [];
-
-      const currentZones: string[] = [];
-
-      for (const geofence of activeGeofences) {
-        const isInside = isInsideGeofence(
-          latitude,
-          longitude,
-          geofence.latitude,
-          geofence.longitude,
-          geofence.radius
-        );
-
-        const lastState = lastStateMap.get(geofence.id);
-
-        if (isInside) {
-          currentZones.push(geofence.name);
-
-          // If we just entered (wasn't inside before)
-          if (lastState !== 'enter' && geofence.notifyEnter) {
-            const eventId = generateId();
-            const event = {
-              id: eventId,
-              geofenceId: geofence.id,
-              childId: user.id,
-              eventType: 'enter' as const,
-              latitude,
-              longitude,
-              timestamp: new Date(),
-            };
-            await db.insert(geofenceEvents).values(event);
-            events.push({
-              geofenceId: geofence.id,
-              geofenceName: geofence.name,
-              eventType: 'enter',
-              timestamp: event.timestamp,
-            });
-          }
-        } else {
-          // If we just exited (was inside before)
-          if (lastState === 'enter' && geofence.notifyExit) {
-            const eventId = generateId();
-            const event = {
-              id: eventId,
-              geofenceId: geofence.id,
-              childId: user.id,
-              eventType: 'exit' as const,
-              latitude,
-              longitude,
-              timestamp: new Date(),
-            };
-            await db.insert(geofenceEvents).values(event);
-            events.push({
-              geofenceId: geofence.id,
-              geofenceName: geofence.name,
-              eventType: 'exit',
-              timestamp: event.timestamp,
-            });
-          }
-        }
-      }
-
-      res.json({ events, currentZones });
+      res.json({ events, currentZones, reminders });
     } catch (error) {
       console.error('Check geofence error:', error);
       res.status(500).json({ error: 'Failed to check geofences' });
@@ -1,13 +1,40 @@
 import { Router } from 'express';
 import { body, query, param } from 'express-validator';
-import { eq, desc, and, gte, lte, asc, inArray } from 'drizzle-orm';
-import { db, users, locations } from '../db';
+import { eq, desc, and, gte, lte, lt, asc, inArray } from 'drizzle-orm';
+import { db, users, locations, devices, NewLocation } from '../db';
 import { validate } from '../middleware/validate';
 import { AppError } from '../middleware/errorHandler';
 import { generateId } from '../utils/codes';
+import { evaluateLocation, evaluateLocations } from '../services/geofenceEngine';
+import { publishFamilyEvent } from '../services/events';
+import { canViewLocation } from '../services/guardianship';
+import { recordHealthReport } from '../services/deviceHealth';
+import { updatePresenceOnLocation } from '../services/presence';
 
 const router = Router();
 
+const MAX_BATCH_SIZE = 1000;
+const INSERT_CHUNK_SIZE = 100;
+
+// Allow for some clock skew between device and server
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+// One buffered fix in a batch upload
+interface BatchLocation {
+  latitude: number;
+  longitude: number;
+  timestamp: number; // ms since epoch, when the fix was taken
+  accuracy?: number;
+  altitude?: number;
+  speed?: number;
+  heading?: number;
+  batteryLevel?: number;
+  isCharging?: boolean;
+  dwellTime?: number;
+}
+
+const isNotInFuture = (value: unknown) => new Date(value as string | number).getTime() <= Date.now() + MAX_CLOCK_SKEW_MS;
+
 // Update current location
 router.post(
   '/',
@@ -21,6 +48,7 @@ router.post(
     body('batteryLevel').optional().isInt({ min: 0, max: 100 }),
     body('isCharging').optional().isBoolean(),
     body('dwellTime').optional().isInt({ min: 0 }),
+    body('timestamp').optional().isInt({ min: 0 }).custom(isNotInFuture).withMessage('Timestamp is in the future'),
   ]),
   async (req, res, next) => {
     try {
@@ -34,10 +62,13 @@ router.post(
         batteryLevel,
         isCharging,
         dwellTime,
+        timestamp,
       } = req.body;
 
       const locationId = generateId();
       const now = new Date();
+      // Devices may send the time the fix was taken
+      const fixTime = timestamp !== undefined ? new Date(timestamp) : now;
 
       await db.insert(locations).values({
         id: locationId,
@@ -51,7 +82,7 @@ router.post(
         batteryLevel,
         isCharging: isCharging || false,
         dwellTime,
-        timestamp: now,
+        timestamp: fixTime,
       });
 
       // Update user's lastSeen
@@ -59,10 +90,28 @@ router.post(
         .set({ lastSeen: now })
         .where(eq(users.id, req.user!.id));
 
+      // Zones, reminders and presence are evaluated server-side for children
+      if (req.user!.role === 'child') {
+        await evaluateLocation(req.user!, { latitude, longitude, accuracy, timestamp: fixTime });
+        await updatePresenceOnLocation(req.user!.id, fixTime);
+      }
+
+      // A location post is a check-in and carries the battery state
+      if (req.user!.deviceId) {
+        const device = await db.query.devices.findFirst({
+          where: eq(devices.id, req.user!.deviceId),
+        });
+        if (device) {
+          await recordHealthReport(device, { batteryLevel, isCharging });
+        }
+      }
+
       const location = await db.query.locations.findFirst({
         where: eq(locations.id, locationId),
       });
 
+      publishFamilyEvent(req.user!.familyId, 'location', { userId: req.user!.id, location });
+
       res.status(201).json(location);
     } catch (error) {
       next(error);
@@ -108,15 +157,9 @@ router.get(
           where: eq(users.id, userId as string),
         });
 
-        const requestingUser = await db.query.users.findFirst({
-          where: eq(users.id, requestingUserId),
-        });
-
-        // Allow if parent of child OR same family
-        const isParentOfChild = targetUser?.parentId === requestingUserId;
-        const isSameFamily = targetUser?.familyId && targetUser.familyId === requestingUser?.familyId;
-
-        if (!isParentOfChild && !isSameFamily) {
+        // Children need the viewLocation permission; other members share
+        // with their family
+        if (!targetUser || !(await canViewLocation(req.user!, targetUser))) {
           throw new AppError('Not authorized to view this location history', 403);
         }
 
@@ -172,22 +215,16 @@ router.get(
 router.get('/user/:userId', async (req, res, next) => {
   try {
     const { userId } = req.params;
-    const requestingUserId = req.user!.id;
 
-    // Check if same family
     const targetUser = await db.query.users.findFirst({
       where: eq(users.id, userId),
     });
 
-    const requestingUser = await db.query.users.findFirst({
-      where: eq(users.id, requestingUserId),
-    });
-
     if (!targetUser) {
       throw new AppError('User not found', 404);
     }
 
-    if (!targetUser.familyId || targetUser.familyId !== requestingUser?.familyId) {
+    if (!(await canViewLocation(req.user!, targetUser))) {
       throw new AppError('Not authorized', 403);
     }
 
@@ -210,44 +247,115 @@ router.get('/user/:userId', async (req, res, next) => {
   }
 });
 
-// Batch update locations (for offline sync)
+// Batch upload buffered locations (offline sync). Points carry their own
+// timestamps; re-sent points are skipped so retries are idempotent.
 router.post(
   '/batch',
   validate([
-    body('locations').isArray({ min: 1, max: 100 }),
+    body('locations').isArray({ min: 1, max: MAX_BATCH_SIZE }),
     body('locations.*.latitude').isFloat({ min: -90, max: 90 }),
     body('locations.*.longitude').isFloat({ min: -180, max: 180 }),
-    body('locations.*.timestamp').isInt(),
+    body('locations.*.timestamp').isInt({ min: 0 }).custom(isNotInFuture).withMessage('Timestamp is in the future'),
+    body('locations.*.accuracy').optional().isFloat({ min: 0 }),
+    body('locations.*.altitude').optional().isFloat(),
+    body('locations.*.speed').optional().isFloat({ min: 0 }),
+    body('locations.*.heading').optional().isFloat({ min: 0, max: 360 }),
+    body('locations.*.batteryLevel').optional().isInt({ min: 0, max: 100 }),
+    body('locations.*.isCharging').optional().isBoolean(),
+    body('locations.*.dwellTime').optional().isInt({ min: 0 }),
   ]),
   async (req, res, next) => {
     try {
-      const { locations: locationsData } = req.body;
+      const user = req.user!;
+      const locationsData: BatchLocation[] = req.body.locations;
 
-      const values = locationsData.map((loc: any) => ({
-        id: generateId(),
-        userId: req.user!.id,
-        latitude: loc.latitude,
-        longitude: loc.longitude,
-        accuracy: loc.accuracy,
-        altitude: loc.altitude,
-        speed: loc.speed,
-        heading: loc.heading,
-        batteryLevel: loc.batteryLevel,
-        isCharging: loc.isCharging || false,
-        dwellTime: loc.dwellTime,
-        timestamp: new Date(loc.timestamp),
-      }));
+      // Timestamps are stored with second precision, so compare at that resolution
+      const toSecond = (ms: number) => Math.floor(ms / 1000) * 1000;
 
-      await db.insert(locations).values(values);
+      const sorted = [...locationsData].sort((a, b) => a.timestamp - b.timestamp);
+      const first = new Date(toSecond(sorted[0].timestamp));
+      const last = new Date(toSecond(sorted[sorted.length - 1].timestamp));
 
-      // Update user's lastSeen
+      const previousLatest = await db.query.locations.findFirst({
+        where: eq(locations.userId, user.id),
+        orderBy: desc(locations.timestamp),
+      });
+
+      const existing = await db.query.locations.findMany({
+        columns: { timestamp: true },
+        where: and(
+          eq(locations.userId, user.id),
+          gte(locations.timestamp, first),
+          lte(locations.timestamp, last)
+        ),
+      });
+      const seen = new Set(existing.map((loc) => loc.timestamp.getTime()));
+
+      const values: (NewLocation & { timestamp: Date })[] = [];
+      for (const loc of sorted) {
+        const timestamp = toSecond(loc.timestamp);
+        if (seen.has(timestamp)) continue;
+        seen.add(timestamp);
+
+        values.push({
+          id: generateId(),
+          userId: user.id,
+          latitude: loc.latitude,
+          longitude: loc.longitude,
+          accuracy: loc.accuracy,
+          altitude: loc.altitude,
+          speed: loc.speed,
+          heading: loc.heading,
+          batteryLevel: loc.batteryLevel,
+          isCharging: loc.isCharging || false,
+          dwellTime: loc.dwellTime,
+          timestamp: new Date(timestamp),
+        });
+      }
+
+      if (values.length > 0) {
+        await db.transaction(async (tx) => {
+          for (let i = 0; i < values.length; i += INSERT_CHUNK_SIZE) {
+            await tx.insert(locations).values(values.slice(i, i + INSERT_CHUNK_SIZE));
+          }
+        });
+      }
+
+      // lastSeen follows the newest fix, not the upload, and never goes back
+      const newest = sorted[sorted.length - 1];
+      const newestAt = new Date(newest.timestamp);
       await db.update(users)
-        .set({ lastSeen: new Date() })
-        .where(eq(users.id, req.user!.id));
+        .set({ lastSeen: newestAt })
+        .where(and(eq(users.id, user.id), lt(users.lastSeen, newestAt)));
+
+      // Replay zones and reminders in time order, but only for points newer
+      // than what the server had already seen; older points are history only
+      if (user.role === 'child') {
+        const newPoints = values.filter((v) => !previousLatest || v.timestamp > previousLatest.timestamp);
+        if (newPoints.length > 0) {
+          await evaluateLocations(user, newPoints);
+          await updatePresenceOnLocation(user.id, newPoints[newPoints.length - 1].timestamp);
+        }
+      }
+
+      // A sync is a check-in too, with the battery state of the newest fix
+      if (user.deviceId) {
+        const device = await db.query.devices.findFirst({
+          where: eq(devices.id, user.deviceId),
+        });
+        if (device) {
+          await recordHealthReport(device, { batteryLevel: newest.batteryLevel, isCharging: newest.isCharging });
+        }
+      }
+
+      if (values.length > 0) {
+        publishFamilyEvent(user.familyId, 'location', { userId: user.id, location: values[values.length - 1] });
+      }
 
       res.status(201).json({
         message: 'Locations synced',
         count: values.length,
+        duplicates: locationsData.length - values.length,
       });
     } catch (error) {
       next(error);
@@ -272,7 +380,7 @@ router.delete(
           throw new AppError('Only parents can clear other users data', 403);
         }
 
-        // Verify target is a child of this parent
+        // Only the primary guardian can erase a child's history
         const targetUser = await db.query.users.findFirst({
           where: eq(users.id, targetUserId),
         });
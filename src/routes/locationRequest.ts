@@ -4,6 +4,9 @@ import { db, locationRequests, users } from '../db';
 import { parentOnly } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
+import { notifyLocationRequest, notifyLocationRequestResponded } from '../services/notifications';
+import { reverseGeocode } from '../services/geocoding';
+import { findGuardedChild } from '../services/guardianship';
 import { eq, and, desc } from 'drizzle-orm';
 
 const router = Router();
@@ -22,9 +25,7 @@ router.post(
     try {
       const user = req.user!;
 
-      const child = await db.query.users.findFirst({
-        where: and(eq(users.id, req.body.childId), eq(users.parentId, user.id)),
-      });
+      const child = await findGuardedChild(user.id, req.body.childId, 'viewLocation');
 
       if (!child) {
         return res.status(403).json({ error: 'Child not found or not your child' });
@@ -43,6 +44,7 @@ router.post(
       };
 
       await db.insert(locationRequests).values(request);
+      await notifyLocationRequest(user, request);
 
       res.status(201).json({
         message: 'Location request sent',
@@ -140,7 +142,8 @@ router.post(
         latitude: req.body.latitude,
         longitude: req.body.longitude,
         accuracy: req.body.accuracy || null,
-        address: req.body.address || null,
+        // Fall back to our own lookup when the device has no geocoder
+        address: req.body.address || await reverseGeocode(req.body.latitude, req.body.longitude),
       };
 
       await db
@@ -152,6 +155,8 @@ router.post(
         })
         .where(eq(locationRequests.id, req.params.id));
 
+      await notifyLocationRequestResponded(user, request);
+
       res.json({ message: 'Location shared successfully' });
     } catch (error) {
       console.error('Respond to location request error:', error);
@@ -4,6 +4,9 @@ import { db, pingRequests, users } from '../db';
 import { parentOnly } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
+import { notifyPing, notifyPingAcknowledged } from '../services/notifications';
+import { publishFamilyEvent } from '../services/events';
+import { findGuardedChild } from '../services/guardianship';
 import { eq, and, desc } from 'drizzle-orm';
 
 const router = Router();
@@ -24,10 +27,8 @@ router.post(
     try {
       const user = req.user!;
 
-      // Verify child belongs to parent
-      const child = await db.query.users.findFirst({
-        where: and(eq(users.id, req.body.childId), eq(users.parentId, user.id)),
-      });
+      // Verify the user is the child's guardian
+      const child = await findGuardedChild(user.id, req.body.childId);
 
       if (!child) {
         return res.status(403).json({ error: 'Child not found or not your child' });
@@ -47,6 +48,7 @@ router.post(
       };
 
       await db.insert(pingRequests).values(ping);
+      await notifyPing(user, ping);
 
       res.status(201).json({
         message: 'Ping sent successfully',
@@ -132,6 +134,9 @@ router.patch(
         .set({ status: 'acknowledged', acknowledgedAt: new Date() })
         .where(eq(pingRequests.id, req.params.id));
 
+      await notifyPingAcknowledged(user, ping);
+      publishFamilyEvent(user.familyId, 'ping_acknowledged', { pingId: ping.id, childId: user.id, parentId: ping.parentId });
+
       res.json({ message: 'Ping acknowledged' });
     } catch (error) {
       console.error('Acknowledge ping error:', error);
@@ -4,6 +4,7 @@ import { db, locationReminders, geofences, users } from '../db';
 import { parentOnly } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
+import { findGuardedChild } from '../services/guardianship';
 import { eq, and, desc } from 'drizzle-orm';
 
 const router = Router();
@@ -17,7 +18,7 @@ router.post('/', parentOnly, validate([
 ]), async (req: Request, res: Response) => {
   try {
     const user = req.user!;
-    const child = await db.query.users.findFirst({ where: and(eq(users.id, req.body.childId), eq(users.parentId, user.id)) });
+    const child = await findGuardedChild(user.id, req.body.childId, 'viewLocation');
     if (!child) return res.status(403).json({ error: 'Child not found or not your child' });
 
     if (req.body.geofenceId) {
@@ -1,9 +1,10 @@
 import { Router, Request, Response } from 'express';
 import { body, param, query } from 'express-validator';
-import { db, screenTimeLimits, dailyStats, users } from '../db';
+import { db, screenTimeLimits, dailyStats } from '../db';
 import { parentOnly } from '../middleware/auth';
 import { validate } from '../middleware/validate';
 import { generateId } from '../utils/codes';
+import { findGuardedChild } from '../services/guardianship';
 import { eq, and, desc, gte, lte } from 'drizzle-orm';
 
 const router = Router();
@@ -35,7 +36,7 @@ router.get('/:childId', parentOnly, validate([param('childId').notEmpty(), query
     try {
       const user = req.user!;
       const { childId } = req.params;
-      const child = await db.query.users.findFirst({ where: and(eq(users.id, childId), eq(users.parentId, user.id)) });
+      const child = await findGuardedChild(user.id, childId);
       if (!child) return res.status(403).json({ error: 'Child not found or not your child' });
 
       const startDate = req.query.startDate as string || new Date().toISOString().split('T')[0];
@@ -54,7 +55,7 @@ router.get('/:childId/summary', parentOnly, validate([param('childId').notEmpty(
       const user = req.user!;
       const { childId } = req.params;
       const period = req.query.period as string || 'week';
-      const child = await db.query.users.findFirst({ where: and(eq(users.id, childId), eq(users.parentId, user.id)) });
+      const child = await findGuardedChild(user.id, childId);
       if (!child) return res.status(403).json({ error: 'Child not found or not your child' });
 
       const now = new Date();
@@ -87,7 +88,7 @@ router.post('/limits', parentOnly, validate([body('childId').notEmpty(), body('t
   async (req: Request, res: Response) => {
     try {
       const user = req.user!;
-      const child = await db.query.users.findFirst({ where: and(eq(users.id, req.body.childId), eq(users.parentId, user.id)) });
+      const child = await findGuardedChild(user.id, req.body.childId, 'manageLimits');
       if (!child) return res.status(403).json({ error: 'Child not found or not your child' });
 
       const limit = {
@@ -108,7 +109,7 @@ router.get('/limits/:childId', validate([param('childId').notEmpty()]), async (r
     const user = req.user!;
     const { childId } = req.params;
     if (user.role === 'parent') {
-      const child = await db.query.users.findFirst({ where: and(eq(users.id, childId), eq(users.parentId, user.id)) });
+      const child = await findGuardedChild(user.id, childId);
       if (!child) return res.status(403).json({ error: 'Child not found or not your child' });
     } else if (user.id !== childId) {
       return res.status(403).json({ error: 'Access denied' });
@@ -126,7 +127,7 @@ router.delete('/limits/:id', parentOnly, validate([param('id').notEmpty()]), asy
     const user = req.user!;
     const limit = await db.query.screenTimeLimits.findFirst({ where: eq(screenTimeLimits.id, req.params.id) });
     if (!limit) return res.status(404).json({ error: 'Limit not found' });
-    if (limit.parentId !== user.id) return res.status(403).json({ error: 'Access denied' });
+    if (!await findGuardedChild(user.id, limit.childId, 'manageLimits')) return res.status(403).json({ error: 'Access denied' });
     await db.delete(screenTimeLimits).where(eq(screenTimeLimits.id, req.params.id));
     res.json({ message: 'Limit deleted' });
   } catch (error) {
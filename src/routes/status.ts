@@ -1,13 +1,25 @@
 import { Router } from 'express';
-import { body, query } from 'express-validator';
-import { eq, desc } from 'drizzle-orm';
-import { db, users, statusUpdates } from '../db';
+import { body, param, query } from 'express-validator';
+import { eq, desc, and } from 'drizzle-orm';
+import { db, users, statusUpdates, sosSessions } from '../db';
 import { validate } from '../middleware/validate';
 import { AppError } from '../middleware/errorHandler';
 import { generateId } from '../utils/codes';
+import { startSos, acknowledgeSos, resolveSos, buildSosTimeline } from '../services/sos';
+import { publishFamilyEvent } from '../services/events';
+import { reverseGeocode } from '../services/geocoding';
+import { findGuardedChild, getLocationVisibleIds, withoutLocation } from '../services/guardianship';
+import { hasFeature } from '../services/memberAccess';
+import { AuthenticatedUser } from '../middleware/auth';
 
 const router = Router();
 
+// Members whose coordinates the caller may see on statuses and SOS sessions:
+// the same as for locations, and only their own without the location feature
+async function getStatusLocationIds(user: AuthenticatedUser): Promise<Set<string>> {
+  return hasFeature(user, 'location') ? getLocationVisibleIds(user) : new Set([user.id]);
+}
+
 // Update status
 router.post(
   '/',
@@ -29,6 +41,7 @@ router.post(
         status,
         latitude,
         longitude,
+        address: null,
         timestamp: now,
       });
 
@@ -41,7 +54,25 @@ router.post(
         where: eq(statusUpdates.id, statusId),
       });
 
-      res.status(201).json(statusUpdate);
+      publishFamilyEvent(req.user!.familyId, 'status', { userId: req.user!.id, status: statusUpdate });
+
+      // SOS opens (or joins) an emergency session that stays open until resolved
+      if (status === 'sos') {
+        const { session } = await startSos(req.user!, { latitude, longitude });
+        res.status(201).json({
+          ...statusUpdate,
+          sos: { sessionId: session.id, locationIntervalSeconds: session.locationIntervalSeconds },
+        });
+      } else {
+        res.status(201).json(statusUpdate);
+      }
+
+      // Filled in afterwards so a slow provider cannot hold up an SOS
+      reverseGeocode(latitude, longitude)
+        .then(async (address) => {
+          if (address) await db.update(statusUpdates).set({ address }).where(eq(statusUpdates.id, statusId));
+        })
+        .catch((error) => console.error('Status address lookup error:', error));
     } catch (error) {
       next(error);
     }
@@ -86,10 +117,10 @@ router.get(
           where: eq(users.id, requestingUserId),
         });
 
-        const isParentOfChild = targetUser?.parentId === requestingUserId;
+        const isGuardian = !!(await findGuardedChild(requestingUserId, userId as string));
         const isSameFamily = targetUser?.familyId && targetUser.familyId === requestingUser?.familyId;
 
-        if (!isParentOfChild && !isSameFamily) {
+        if (!isGuardian && !isSameFamily) {
           throw new AppError('Not authorized', 403);
         }
 
@@ -102,7 +133,8 @@ router.get(
         limit: limit ? parseInt(limit as string) : 20,
       });
 
-      res.json(statuses);
+      const locationVisibleIds = await getStatusLocationIds(req.user!);
+      res.json(locationVisibleIds.has(targetUserId) ? statuses : statuses.map(withoutLocation));
     } catch (error) {
       next(error);
     }
@@ -123,6 +155,7 @@ router.get('/family', async (req, res, next) => {
     const familyMembers = await db.query.users.findMany({
       where: eq(users.familyId, user.familyId),
     });
+    const locationVisibleIds = await getStatusLocationIds(req.user!);
 
     const result = await Promise.all(familyMembers.map(async (member) => {
       const latestStatus = await db.query.statusUpdates.findFirst({
@@ -135,7 +168,9 @@ router.get('/family', async (req, res, next) => {
         displayName: member.displayName,
         avatar: member.avatar,
         lastSeen: member.lastSeen,
-        latestStatus: latestStatus || null,
+        latestStatus: latestStatus
+          ? (locationVisibleIds.has(member.id) ? latestStatus : withoutLocation(latestStatus))
+          : null,
       };
     }));
 
@@ -145,4 +180,125 @@ router.get('/family', async (req, res, next) => {
   }
 });
 
+// Load an SOS session the caller may see (same family, or the user themselves)
+async function findVisibleSosSession(sessionId: string, user: { id: string; familyId: string | null }) {
+  const session = await db.query.sosSessions.findFirst({
+    where: eq(sosSessions.id, sessionId),
+  });
+
+  if (!session) {
+    throw new AppError('SOS session not found', 404);
+  }
+
+  const isOwn = session.userId === user.id;
+  const isFamily = !!session.familyId && session.familyId === user.familyId;
+  if (!isOwn && !isFamily) {
+    throw new AppError('Not authorized', 403);
+  }
+
+  return session;
+}
+
+// Get open SOS sessions in the family
+router.get('/sos/active', async (req, res, next) => {
+  try {
+    const user = req.user!;
+
+    const sessions = user.familyId
+      ? await db.query.sosSessions.findMany({
+        where: and(eq(sosSessions.familyId, user.familyId), eq(sosSessions.status, 'active')),
+        orderBy: desc(sosSessions.startedAt),
+      })
+      : await db.query.sosSessions.findMany({
+        where: and(eq(sosSessions.userId, user.id), eq(sosSessions.status, 'active')),
+      });
+
+    const locationVisibleIds = await getStatusLocationIds(user);
+    res.json(sessions.map((session) => locationVisibleIds.has(session.userId) ? session : withoutLocation(session)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Get an SOS session with its full timeline
+router.get(
+  '/sos/:id',
+  validate([
+    param('id').notEmpty(),
+  ]),
+  async (req, res, next) => {
+    try {
+      const session = await findVisibleSosSession(req.params.id, req.user!);
+      const canSeeLocation = (await getStatusLocationIds(req.user!)).has(session.userId);
+
+      const sosUser = await db.query.users.findFirst({
+        where: eq(users.id, session.userId),
+      });
+
+      res.json({
+        ...(canSeeLocation ? session : withoutLocation(session)),
+        userName: sosUser?.displayName || 'Unknown',
+        timeline: await buildSosTimeline(session, canSeeLocation),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Acknowledge an SOS (family members)
+router.post(
+  '/sos/:id/acknowledge',
+  validate([
+    param('id').notEmpty(),
+    body('message').optional().isString().isLength({ max: 500 }),
+  ]),
+  async (req, res, next) => {
+    try {
+      const session = await findVisibleSosSession(req.params.id, req.user!);
+
+      if (session.status !== 'active') {
+        throw new AppError('SOS session already resolved', 400);
+      }
+      if (session.userId === req.user!.id) {
+        throw new AppError('You cannot acknowledge your own SOS', 400);
+      }
+
+      const acknowledgement = await acknowledgeSos(session, req.user!, req.body.message || null);
+
+      res.status(201).json(acknowledgement);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Resolve an SOS (the user themselves or a parent)
+router.post(
+  '/sos/:id/resolve',
+  validate([
+    param('id').notEmpty(),
+    body('note').optional().isString().isLength({ max: 500 }),
+  ]),
+  async (req, res, next) => {
+    try {
+      const session = await findVisibleSosSession(req.params.id, req.user!);
+
+      if (session.userId !== req.user!.id && req.user!.role !== 'parent') {
+        throw new AppError('Only the user or a parent can resolve an SOS', 403);
+      }
+      if (session.status !== 'active') {
+        throw new AppError('SOS session already resolved', 400);
+      }
+
+      const resolved = await resolveSos(session, req.user!, req.body.note || null);
+      const canSeeLocation = (await getStatusLocationIds(req.user!)).has(session.userId);
+
+      res.json(canSeeLocation ? resolved : withoutLocation(resolved));
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
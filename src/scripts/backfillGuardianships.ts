@@ -0,0 +1,15 @@
+import dotenv from 'dotenv';
+import { backfillFamilyGuardianships } from '../services/guardianship';
+
+dotenv.config();
+
+// One-off: npm run db:backfill-guardianships
+backfillFamilyGuardianships()
+  .then((granted) => {
+    console.log(`Granted ${granted} guardianship(s)`);
+    process.exit(0);
+  })
+  .catch((error) => {
+    console.error('Guardianship backfill failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,338 @@
+import { eq, and, or, ne, lte, inArray, SQL } from 'drizzle-orm';
+import {
+  db,
+  users,
+  families,
+  locations,
+  statusUpdates,
+  sosSessions,
+  sosAcknowledgements,
+  favoritePlaces,
+  dailyStats,
+  geofences,
+  geofenceEvents,
+  pingRequests,
+  locationRequests,
+  chatMessages,
+  screenTimeLimits,
+  blockedApps,
+  browsingHistory,
+  blockedWebsites,
+  crashEvents,
+  crashEventLogs,
+  emergencyContacts,
+  locationReminders,
+  drivingSessions,
+  drivingEvents,
+  sessions,
+  dataExports,
+  accountDeletions,
+  guardianships,
+  familyInvites,
+  membershipRequests,
+  devices,
+  deviceAlerts,
+  pairingTokens,
+  authTokens,
+  AccountDeletion,
+  User,
+} from '../db';
+import { generateId } from '../utils/codes';
+import { revokeAllSessions } from './sessions';
+
+// Days between a deletion request and the erasure; the request can be undone until then
+export const ACCOUNT_DELETION_GRACE_DAYS = parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '7');
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// SQLite limits bound parameters per statement
+const ID_CHUNK_SIZE = 500;
+
+// `column IN (ids)` split into parameter-sized chunks; undefined when there are no ids
+function anyOf(column: Parameters<typeof inArray>[0], ids: string[]): SQL | undefined {
+  if (ids.length === 0) return undefined;
+  const chunks: SQL[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    chunks.push(inArray(column, ids.slice(i, i + ID_CHUNK_SIZE)));
+  }
+  return or(...chunks);
+}
+
+export function toDeletionReceipt(deletion: AccountDeletion) {
+  return {
+    id: deletion.id,
+    userId: deletion.userId,
+    requestedById: deletion.requestedById,
+    status: deletion.status,
+    requestedAt: deletion.createdAt,
+    scheduledFor: deletion.scheduledFor,
+    undoUntil: deletion.status === 'scheduled' ? deletion.scheduledFor : null,
+    cancelledAt: deletion.cancelledAt,
+    completedAt: deletion.completedAt,
+    erasedRows: deletion.erasedRows,
+  };
+}
+
+export async function getScheduledDeletion(userId: string): Promise<AccountDeletion | undefined> {
+  return db.query.accountDeletions.findFirst({
+    where: and(eq(accountDeletions.userId, userId), eq(accountDeletions.status, 'scheduled')),
+  });
+}
+
+// A parent's children need another parent in the family to take them over
+export async function leavesChildrenWithoutParent(user: User): Promise<boolean> {
+  if (user.role !== 'parent') return false;
+
+  const child = await db.query.users.findFirst({
+    where: eq(users.parentId, user.id),
+  });
+  if (!child) return false;
+
+  const successor = user.familyId
+    ? await db.query.users.findFirst({
+      where: and(eq(users.familyId, user.familyId), eq(users.role, 'parent'), ne(users.id, user.id)),
+    })
+    : undefined;
+
+  return !successor;
+}
+
+// Schedule an account for erasure and sign it out everywhere. Scheduling
+// twice returns the existing request.
+export async function scheduleAccountDeletion(user: User, requestedById: string): Promise<AccountDeletion> {
+  const existing = await getScheduledDeletion(user.id);
+  if (existing) return existing;
+
+  const now = new Date();
+  const deletion: AccountDeletion = {
+    id: generateId(),
+    userId: user.id,
+    requestedById,
+    status: 'scheduled',
+    scheduledFor: new Date(now.getTime() + ACCOUNT_DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000),
+    erasedRows: null,
+    createdAt: now,
+    cancelledAt: null,
+    completedAt: null,
+  };
+  await db.insert(accountDeletions).values(deletion);
+  await revokeAllSessions(user.id);
+
+  return deletion;
+}
+
+export async function cancelAccountDeletion(deletion: AccountDeletion): Promise<AccountDeletion> {
+  const cancelledAt = new Date();
+  await db.update(accountDeletions)
+    .set({ status: 'cancelled', cancelledAt })
+    .where(eq(accountDeletions.id, deletion.id));
+
+  return { ...deletion, status: 'cancelled', cancelledAt };
+}
+
+// Delete every row keyed by a user. Family-owned rows go too when the user
+// is the family's last member; otherwise shared rows the user created
+// (geofences, places, reminders, limits and blocks) and their children move to
+// another parent.
+async function eraseUser(tx: Transaction, userId: string): Promise<Record<string, number>> {
+  const erased: Record<string, number> = {};
+  const count = (table: string, rows: unknown[]) => {
+    erased[table] = (erased[table] || 0) + rows.length;
+  };
+
+  const user = await tx.query.users.findFirst({ where: eq(users.id, userId) });
+  if (!user) return erased;
+
+  const otherMembers = user.familyId
+    ? await tx.query.users.findMany({
+      where: and(eq(users.familyId, user.familyId), ne(users.id, userId)),
+    })
+    : [];
+  const lastMember = !!user.familyId && otherMembers.length === 0;
+  const familyOwned = (column: Parameters<typeof eq>[0]) => (lastMember ? eq(column, user.familyId!) : undefined);
+
+  // Who takes over shared rows: another parent, else any remaining member
+  const successor = otherMembers.find((m) => m.role === 'parent');
+  const heir = successor || otherMembers[0];
+
+  const [sosIds, crashIds, drivingIds, geofenceIds] = await Promise.all([
+    tx.query.sosSessions.findMany({ where: eq(sosSessions.userId, userId), columns: { id: true } }),
+    tx.query.crashEvents.findMany({ where: eq(crashEvents.userId, userId), columns: { id: true } }),
+    tx.query.drivingSessions.findMany({ where: eq(drivingSessions.userId, userId), columns: { id: true } }),
+    tx.query.geofences.findMany({
+      where: or(
+        heir ? undefined : eq(geofences.userId, userId),
+        eq(geofences.childId, userId),
+        familyOwned(geofences.familyId)
+      ),
+      columns: { id: true },
+    }),
+  ]).then((results) => results.map((rows) => rows.map((row) => row.id)));
+
+  count('sos_acknowledgements', await tx.delete(sosAcknowledgements)
+    .where(or(eq(sosAcknowledgements.userId, userId), anyOf(sosAcknowledgements.sessionId, sosIds)))
+    .returning({ id: sosAcknowledgements.id }));
+  count('sos_sessions', await tx.delete(sosSessions)
+    .where(or(eq(sosSessions.userId, userId), familyOwned(sosSessions.familyId)))
+    .returning({ id: sosSessions.id }));
+  await tx.update(sosSessions).set({ resolvedById: null }).where(eq(sosSessions.resolvedById, userId));
+
+  count('crash_event_logs', crashIds.length > 0
+    ? await tx.delete(crashEventLogs).where(anyOf(crashEventLogs.crashEventId, crashIds)).returning({ id: crashEventLogs.id })
+    : []);
+  count('crash_events', await tx.delete(crashEvents).where(eq(crashEvents.userId, userId)).returning({ id: crashEvents.id }));
+
+  count('driving_events', drivingIds.length > 0
+    ? await tx.delete(drivingEvents).where(anyOf(drivingEvents.sessionId, drivingIds)).returning({ id: drivingEvents.id })
+    : []);
+  count('driving_sessions', await tx.delete(drivingSessions)
+    .where(eq(drivingSessions.userId, userId))
+    .returning({ id: drivingSessions.id }));
+
+  count('geofence_events', await tx.delete(geofenceEvents)
+    .where(or(eq(geofenceEvents.childId, userId), anyOf(geofenceEvents.geofenceId, geofenceIds)))
+    .returning({ id: geofenceEvents.id }));
+  count('location_reminders', await tx.delete(locationReminders)
+    .where(or(
+      successor ? undefined : eq(locationReminders.parentId, userId),
+      eq(locationReminders.childId, userId),
+      anyOf(locationReminders.geofenceId, geofenceIds)
+    ))
+    .returning({ id: locationReminders.id }));
+  count('geofences', geofenceIds.length > 0
+    ? await tx.delete(geofences).where(anyOf(geofences.id, geofenceIds)).returning({ id: geofences.id })
+    : []);
+  if (successor) {
+    await tx.update(locationReminders).set({ parentId: successor.id }).where(eq(locationReminders.parentId, userId));
+  }
+  if (heir) {
+    await tx.update(geofences).set({ userId: heir.id }).where(eq(geofences.userId, userId));
+  }
+
+  count('ping_requests', await tx.delete(pingRequests)
+    .where(or(eq(pingRequests.parentId, userId), eq(pingRequests.childId, userId)))
+    .returning({ id: pingRequests.id }));
+  count('location_requests', await tx.delete(locationRequests)
+    .where(or(eq(locationRequests.parentId, userId), eq(locationRequests.childId, userId)))
+    .returning({ id: locationRequests.id }));
+  count('screen_time_limits', await tx.delete(screenTimeLimits)
+    .where(or(successor ? undefined : eq(screenTimeLimits.parentId, userId), eq(screenTimeLimits.childId, userId)))
+    .returning({ id: screenTimeLimits.id }));
+  count('blocked_apps', await tx.delete(blockedApps)
+    .where(or(successor ? undefined : eq(blockedApps.parentId, userId), eq(blockedApps.childId, userId)))
+    .returning({ id: blockedApps.id }));
+  count('blocked_websites', await tx.delete(blockedWebsites)
+    .where(or(successor ? undefined : eq(blockedWebsites.parentId, userId), eq(blockedWebsites.childId, userId)))
+    .returning({ id: blockedWebsites.id }));
+  // A child's limits and blocks outlive the parent who set them
+  if (successor) {
+    await tx.update(screenTimeLimits).set({ parentId: successor.id }).where(eq(screenTimeLimits.parentId, userId));
+    await tx.update(blockedApps).set({ parentId: successor.id }).where(eq(blockedApps.parentId, userId));
+    await tx.update(blockedWebsites).set({ parentId: successor.id }).where(eq(blockedWebsites.parentId, userId));
+  }
+
+  count('chat_messages', await tx.delete(chatMessages)
+    .where(or(eq(chatMessages.senderId, userId), familyOwned(chatMessages.familyId)))
+    .returning({ id: chatMessages.id }));
+  // Nothing to delete when the places are inherited; an empty where would match every row
+  const placesToDelete = or(heir ? undefined : eq(favoritePlaces.createdById, userId), familyOwned(favoritePlaces.familyId));
+  count('favorite_places', placesToDelete
+    ? await tx.delete(favoritePlaces).where(placesToDelete).returning({ id: favoritePlaces.id })
+    : []);
+  if (heir) {
+    await tx.update(favoritePlaces).set({ createdById: heir.id }).where(eq(favoritePlaces.createdById, userId));
+  }
+
+  count('locations', await tx.delete(locations).where(eq(locations.userId, userId)).returning({ id: locations.id }));
+  count('status_updates', await tx.delete(statusUpdates)
+    .where(eq(statusUpdates.userId, userId))
+    .returning({ id: statusUpdates.id }));
+  count('daily_stats', await tx.delete(dailyStats).where(eq(dailyStats.userId, userId)).returning({ id: dailyStats.id }));
+  count('browsing_history', await tx.delete(browsingHistory)
+    .where(eq(browsingHistory.userId, userId))
+    .returning({ id: browsingHistory.id }));
+  count('emergency_contacts', await tx.delete(emergencyContacts)
+    .where(eq(emergencyContacts.userId, userId))
+    .returning({ id: emergencyContacts.id }));
+  count('guardianships', await tx.delete(guardianships)
+    .where(or(eq(guardianships.guardianId, userId), eq(guardianships.childId, userId)))
+    .returning({ id: guardianships.id }));
+  count('family_invites', await tx.delete(familyInvites)
+    .where(or(eq(familyInvites.createdById, userId), familyOwned(familyInvites.familyId)))
+    .returning({ id: familyInvites.id }));
+  count('membership_requests', await tx.delete(membershipRequests)
+    .where(or(eq(membershipRequests.userId, userId), familyOwned(membershipRequests.familyId)))
+    .returning({ id: membershipRequests.id }));
+  count('sessions', await tx.delete(sessions).where(eq(sessions.userId, userId)).returning({ id: sessions.id }));
+  count('auth_tokens', await tx.delete(authTokens).where(eq(authTokens.userId, userId)).returning({ id: authTokens.id }));
+  count('devices', await tx.delete(devices).where(eq(devices.userId, userId)).returning({ id: devices.id }));
+  count('device_alerts', await tx.delete(deviceAlerts)
+    .where(eq(deviceAlerts.userId, userId))
+    .returning({ id: deviceAlerts.id }));
+  count('pairing_tokens', await tx.delete(pairingTokens)
+    .where(or(
+      eq(pairingTokens.parentId, userId),
+      eq(pairingTokens.childId, userId),
+      eq(pairingTokens.redeemedById, userId)
+    ))
+    .returning({ id: pairingTokens.id }));
+  count('data_exports', await tx.delete(dataExports)
+    .where(or(eq(dataExports.requestedById, userId), familyOwned(dataExports.familyId)))
+    .returning({ id: dataExports.id }));
+
+  // Children stay in the family under another parent
+  await tx.update(users)
+    .set({ parentId: successor?.id || null, updatedAt: new Date() })
+    .where(eq(users.parentId, userId));
+
+  count('users', await tx.delete(users).where(eq(users.id, userId)).returning({ id: users.id }));
+  if (lastMember) {
+    count('families', await tx.delete(families).where(eq(families.id, user.familyId!)).returning({ id: families.id }));
+  }
+
+  return erased;
+}
+
+// Erase one account whose grace period is over. Only the caller that moves
+// the request out of 'scheduled' erases, so concurrent job runs cannot collide.
+export async function completeAccountDeletion(deletionId: string): Promise<AccountDeletion | null> {
+  return db.transaction(async (tx) => {
+    const now = new Date();
+    const [deletion] = await tx.update(accountDeletions)
+      .set({ status: 'completed', completedAt: now })
+      .where(and(
+        eq(accountDeletions.id, deletionId),
+        eq(accountDeletions.status, 'scheduled'),
+        lte(accountDeletions.scheduledFor, now)
+      ))
+      .returning();
+
+    if (!deletion) return null;
+
+    const erasedRows = await eraseUser(tx, deletion.userId);
+    await tx.update(accountDeletions)
+      .set({ erasedRows })
+      .where(eq(accountDeletions.id, deletion.id));
+
+    return { ...deletion, erasedRows };
+  });
+}
+
+// Scheduled job: erase accounts whose grace period has ended
+export async function runAccountDeletionJob(): Promise<{ erased: number }> {
+  const due = await db.query.accountDeletions.findMany({
+    where: and(eq(accountDeletions.status, 'scheduled'), lte(accountDeletions.scheduledFor, new Date())),
+    columns: { id: true },
+  });
+
+  let erased = 0;
+  for (const { id } of due) {
+    try {
+      if (await completeAccountDeletion(id)) erased++;
+    } catch (error) {
+      console.error(`Account deletion ${id} failed:`, error);
+    }
+  }
+
+  return { erased };
+}
@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { eq, and, isNull, gt, desc } from 'drizzle-orm';
+import { db, users, authTokens, AuthToken, User } from '../db';
+import { generateId } from '../utils/codes';
+import { hashToken, revokeAllSessions } from './sessions';
+import { sendPasswordResetMail, sendEmailVerificationMail } from './mail';
+
+const PASSWORD_RESET_TTL_MINUTES = parseInt(process.env.PASSWORD_RESET_TTL_MINUTES || '60');
+const EMAIL_VERIFICATION_TTL_HOURS = parseInt(process.env.EMAIL_VERIFICATION_TTL_HOURS || '48');
+
+// How often reset or verification e-mails may go to one account
+const AUTH_MAIL_COOLDOWN_SECONDS = parseInt(process.env.AUTH_MAIL_COOLDOWN_SECONDS || '60');
+const AUTH_MAIL_HOURLY_LIMIT = parseInt(process.env.AUTH_MAIL_HOURLY_LIMIT || '5');
+
+type AuthTokenType = AuthToken['type'];
+
+// Whether another e-mail of this type may go to the user yet
+async function canIssueToken(user: User, type: AuthTokenType): Promise<boolean> {
+  const now = Date.now();
+  const recent = await db.query.authTokens.findMany({
+    where: and(
+      eq(authTokens.userId, user.id),
+      eq(authTokens.type, type),
+      gt(authTokens.createdAt, new Date(now - 60 * 60 * 1000))
+    ),
+    columns: { createdAt: true },
+    orderBy: desc(authTokens.createdAt),
+  });
+
+  if (recent.length >= AUTH_MAIL_HOURLY_LIMIT) return false;
+  return recent.length === 0 || recent[0].createdAt.getTime() <= now - AUTH_MAIL_COOLDOWN_SECONDS * 1000;
+}
+
+// Issue a token, replacing any earlier unused one of the same type so only the
+// latest e-mail works
+async function issueToken(user: User, type: AuthTokenType, ttlMs: number): Promise<string> {
+  const now = new Date();
+  await db.update(authTokens)
+    .set({ usedAt: now })
+    .where(and(eq(authTokens.userId, user.id), eq(authTokens.type, type), isNull(authTokens.usedAt)));
+
+  const id = generateId();
+  const token = `${id}.${crypto.randomBytes(32).toString('base64url')}`;
+  await db.insert(authTokens).values({
+    id,
+    userId: user.id,
+    type,
+    tokenHash: hashToken(token),
+    email: user.email,
+    expiresAt: new Date(now.getTime() + ttlMs),
+    createdAt: now,
+  });
+
+  return token;
+}
+
+// Use up a token. Returns null if it is unknown, expired, already used or of
+// another type.
+async function consumeToken(token: string, type: AuthTokenType): Promise<AuthToken | null> {
+  const id = token.split('.')[0];
+  const now = new Date();
+
+  const [record] = await db.update(authTokens)
+    .set({ usedAt: now })
+    .where(and(
+      eq(authTokens.id, id),
+      eq(authTokens.type, type),
+      eq(authTokens.tokenHash, hashToken(token)),
+      isNull(authTokens.usedAt),
+      gt(authTokens.expiresAt, now)
+    ))
+    .returning();
+
+  return record || null;
+}
+
+// Mail a reset link if the address belongs to an account and was not mailed
+// too recently. Callers respond the same either way so the endpoint cannot be
+// used to probe for accounts.
+export async function requestPasswordReset(email: string): Promise<void> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.email, email),
+  });
+  if (!user || !(await canIssueToken(user, 'password_reset'))) return;
+
+  const token = await issueToken(user, 'password_reset', PASSWORD_RESET_TTL_MINUTES * 60 * 1000);
+  await sendPasswordResetMail(user.email, token, PASSWORD_RESET_TTL_MINUTES);
+}
+
+// Set a new password from a reset token and sign out every device. Following
+// the mailed link also proves the address, so it counts as verified.
+export async function resetPassword(token: string, password: string): Promise<User | null> {
+  const record = await consumeToken(token, 'password_reset');
+  if (!record) return null;
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, record.userId),
+  });
+  if (!user || user.email !== record.email) return null;
+
+  const now = new Date();
+  await db.update(users)
+    .set({
+      password: await bcrypt.hash(password, 10),
+      emailVerifiedAt: user.emailVerifiedAt ?? now,
+      updatedAt: now,
+    })
+    .where(eq(users.id, user.id));
+
+  await revokeAllSessions(user.id);
+  return user;
+}
+
+// Returns false without sending when the user was mailed too recently
+export async function sendEmailVerification(user: User): Promise<boolean> {
+  if (!(await canIssueToken(user, 'email_verification'))) return false;
+
+  const token = await issueToken(user, 'email_verification', EMAIL_VERIFICATION_TTL_HOURS * 60 * 60 * 1000);
+  await sendEmailVerificationMail(user.email, token, EMAIL_VERIFICATION_TTL_HOURS);
+  return true;
+}
+
+// Mark the address a verification token was sent to as verified, as long as
+// the account still uses it
+export async function verifyEmail(token: string): Promise<User | null> {
+  const record = await consumeToken(token, 'email_verification');
+  if (!record) return null;
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, record.userId),
+  });
+  if (!user || user.email !== record.email) return null;
+
+  const emailVerifiedAt = user.emailVerifiedAt ?? new Date();
+  await db.update(users)
+    .set({ emailVerifiedAt, updatedAt: new Date() })
+    .where(eq(users.id, user.id));
+
+  return { ...user, emailVerifiedAt };
+}
@@ -0,0 +1,371 @@
+import { eq, and, or, inArray, lt, isNull } from 'drizzle-orm';
+import {
+  db,
+  users,
+  families,
+  locations,
+  statusUpdates,
+  sosSessions,
+  sosAcknowledgements,
+  favoritePlaces,
+  dailyStats,
+  geofences,
+  geofenceEvents,
+  pingRequests,
+  locationRequests,
+  chatMessages,
+  screenTimeLimits,
+  blockedApps,
+  browsingHistory,
+  blockedWebsites,
+  crashEvents,
+  crashEventLogs,
+  emergencyContacts,
+  locationReminders,
+  drivingSessions,
+  drivingEvents,
+  sessions,
+  dataExports,
+  guardianships,
+  familyInvites,
+  membershipRequests,
+  devices,
+  deviceAlerts,
+  DataExport,
+  User,
+} from '../db';
+import { generateId } from '../utils/codes';
+import { createZip } from '../utils/zip';
+import { notifyDataExportReady } from './notifications';
+import { getGuardedChildren } from './guardianship';
+import { isLimitedRole } from './memberAccess';
+
+// How long a finished archive can be downloaded
+export const EXPORT_RETENTION_HOURS = parseInt(process.env.EXPORT_RETENTION_HOURS || '72');
+
+// How long a build may stay 'processing'. One that dies part-way, e.g. when a
+// serverless function is frozen after responding, is failed after this.
+export const EXPORT_PROCESSING_TIMEOUT_MINUTES = parseInt(process.env.EXPORT_PROCESSING_TIMEOUT_MINUTES || '15');
+
+// SQLite limits bound parameters per statement
+const ID_CHUNK_SIZE = 500;
+
+async function inChunks<T>(ids: string[], query: (chunk: string[]) => Promise<T[]>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let i = 0; i < ids.length; i += ID_CHUNK_SIZE) {
+    rows.push(...await query(ids.slice(i, i + ID_CHUNK_SIZE)));
+  }
+  return rows;
+}
+
+// Fail builds that have been 'processing' for too long so they stop counting
+// as in flight and the user can ask again
+async function failStalledExports(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - EXPORT_PROCESSING_TIMEOUT_MINUTES * 60 * 1000);
+  const stalled = await db.update(dataExports)
+    .set({ status: 'failed', error: 'Export timed out', completedAt: now })
+    .where(and(
+      eq(dataExports.status, 'processing'),
+      or(
+        lt(dataExports.startedAt, cutoff),
+        and(isNull(dataExports.startedAt), lt(dataExports.createdAt, cutoff))
+      )
+    ))
+    .returning({ id: dataExports.id });
+  return stalled.length;
+}
+
+// Queue an export. A user has at most one export in flight; asking again
+// returns the queued one.
+export async function requestDataExport(
+  user: { id: string; familyId: string | null },
+  scope: 'family' | 'self'
+): Promise<{ exportJob: DataExport; created: boolean }> {
+  await failStalledExports();
+
+  const inFlight = await db.query.dataExports.findFirst({
+    where: and(
+      eq(dataExports.requestedById, user.id),
+      inArray(dataExports.status, ['pending', 'processing'])
+    ),
+  });
+  if (inFlight) {
+    return { exportJob: inFlight, created: false };
+  }
+
+  const exportJob: DataExport = {
+    id: generateId(),
+    requestedById: user.id,
+    familyId: user.familyId,
+    scope,
+    status: 'pending',
+    archive: null,
+    sizeBytes: null,
+    error: null,
+    createdAt: new Date(),
+    startedAt: null,
+    completedAt: null,
+    expiresAt: null,
+  };
+  await db.insert(dataExports).values(exportJob);
+
+  return { exportJob, created: true };
+}
+
+// Everything the service holds about a set of users, one array per table.
+// Credentials (password hashes, refresh tokens, push tokens) are left out.
+async function collectTables(exportJob: DataExport): Promise<Record<string, unknown[]>> {
+  const familyScope = exportJob.scope === 'family' && !!exportJob.familyId;
+
+  // A family export covers the requester and the children they are a guardian
+  // of; other parents', caregivers' and guests' own data stays out of it
+  const guardedChildren = familyScope
+    ? (await getGuardedChildren(exportJob.requestedById)).filter((c) => c.familyId === exportJob.familyId)
+    : [];
+  const members = await db.query.users.findMany({
+    where: inArray(users.id, [exportJob.requestedById, ...guardedChildren.map((c) => c.id)]),
+    columns: { password: false, fcmToken: false, pairingCode: false },
+  });
+  const ids = members.map((m) => m.id);
+
+  // Children's locations (and statuses, SOS sessions and crashes, which carry
+  // coordinates) and browsing also need the matching permission
+  const [locationChildren, browsingChildren] = familyScope
+    ? await Promise.all([
+      getGuardedChildren(exportJob.requestedById, 'viewLocation'),
+      getGuardedChildren(exportJob.requestedById, 'viewBrowsing'),
+    ])
+    : [[], []];
+  const permittedIds = (children: User[]) => {
+    const allowed = new Set(children.map((c) => c.id));
+    return ids.filter((id) => id === exportJob.requestedById || allowed.has(id));
+  };
+  const locationIds = permittedIds(locationChildren);
+  const browsingIds = permittedIds(browsingChildren);
+  const requester = members.find((m) => m.id === exportJob.requestedById);
+
+  const [
+    family,
+    locationRows,
+    statusRows,
+    sosRows,
+    placeRows,
+    statsRows,
+    geofenceRows,
+    geofenceEventRows,
+    pingRows,
+    locationRequestRows,
+    chatRows,
+    screenTimeRows,
+    blockedAppRows,
+    browsingRows,
+    blockedWebsiteRows,
+    crashRows,
+    contactRows,
+    reminderRows,
+    drivingRows,
+    sessionRows,
+    deviceRows,
+    deviceAlertRows,
+    guardianshipRows,
+    inviteRows,
+    membershipRequestRows,
+  ] = await Promise.all([
+    exportJob.familyId
+      ? db.query.families.findFirst({ where: eq(families.id, exportJob.familyId) })
+      : Promise.resolve(undefined),
+    db.query.locations.findMany({ where: inArray(locations.userId, locationIds) }),
+    db.query.statusUpdates.findMany({ where: inArray(statusUpdates.userId, locationIds) }),
+    db.query.sosSessions.findMany({ where: inArray(sosSessions.userId, locationIds) }),
+    // Family-owned rows: the whole family's, or only what the user created
+    db.query.favoritePlaces.findMany({
+      where: familyScope
+        ? eq(favoritePlaces.familyId, exportJob.familyId!)
+        : inArray(favoritePlaces.createdById, ids),
+    }),
+    db.query.dailyStats.findMany({ where: inArray(dailyStats.userId, locationIds) }),
+    db.query.geofences.findMany({
+      where: familyScope
+        ? eq(geofences.familyId, exportJob.familyId!)
+        : or(inArray(geofences.userId, ids), inArray(geofences.childId, ids)),
+    }),
+    db.query.geofenceEvents.findMany({ where: inArray(geofenceEvents.childId, locationIds) }),
+    db.query.pingRequests.findMany({
+      where: or(inArray(pingRequests.parentId, ids), inArray(pingRequests.childId, ids)),
+    }),
+    db.query.locationRequests.findMany({
+      where: or(inArray(locationRequests.parentId, ids), inArray(locationRequests.childId, ids)),
+    }),
+    db.query.chatMessages.findMany({
+      where: familyScope
+        ? eq(chatMessages.familyId, exportJob.familyId!)
+        : inArray(chatMessages.senderId, ids),
+    }),
+    db.query.screenTimeLimits.findMany({
+      where: or(inArray(screenTimeLimits.parentId, ids), inArray(screenTimeLimits.childId, ids)),
+    }),
+    db.query.blockedApps.findMany({
+      where: or(inArray(blockedApps.parentId, ids), inArray(blockedApps.childId, ids)),
+    }),
+    db.query.browsingHistory.findMany({ where: inArray(browsingHistory.userId, browsingIds) }),
+    db.query.blockedWebsites.findMany({
+      where: or(inArray(blockedWebsites.parentId, ids), inArray(blockedWebsites.childId, ids)),
+    }),
+    db.query.crashEvents.findMany({ where: inArray(crashEvents.userId, locationIds) }),
+    db.query.emergencyContacts.findMany({ where: inArray(emergencyContacts.userId, ids) }),
+    db.query.locationReminders.findMany({
+      where: or(inArray(locationReminders.parentId, ids), inArray(locationReminders.childId, ids)),
+    }),
+    db.query.drivingSessions.findMany({ where: inArray(drivingSessions.userId, locationIds) }),
+    // Sessions hold IP addresses and user agents; only the requester's own
+    db.query.sessions.findMany({
+      where: eq(sessions.userId, exportJob.requestedById),
+      columns: { refreshTokenHash: false },
+    }),
+    db.query.devices.findMany({
+      where: inArray(devices.userId, ids),
+      columns: { pushToken: false },
+    }),
+    db.query.deviceAlerts.findMany({ where: inArray(deviceAlerts.userId, ids) }),
+    db.query.guardianships.findMany({
+      where: or(inArray(guardianships.guardianId, ids), inArray(guardianships.childId, ids)),
+    }),
+    db.query.familyInvites.findMany({
+      where: familyScope
+        ? eq(familyInvites.familyId, exportJob.familyId!)
+        : inArray(familyInvites.createdById, ids),
+    }),
+    db.query.membershipRequests.findMany({
+      where: familyScope
+        ? eq(membershipRequests.familyId, exportJob.familyId!)
+        : inArray(membershipRequests.userId, ids),
+    }),
+  ]);
+
+  const [acknowledgementRows, crashLogRows, drivingEventRows] = await Promise.all([
+    inChunks(sosRows.map((s) => s.id), (chunk) =>
+      db.query.sosAcknowledgements.findMany({ where: inArray(sosAcknowledgements.sessionId, chunk) })
+    ),
+    inChunks(crashRows.map((c) => c.id), (chunk) =>
+      db.query.crashEventLogs.findMany({ where: inArray(crashEventLogs.crashEventId, chunk) })
+    ),
+    inChunks(drivingRows.map((d) => d.id), (chunk) =>
+      db.query.drivingEvents.findMany({ where: inArray(drivingEvents.sessionId, chunk) })
+    ),
+  ]);
+
+  return {
+    // Caregivers and guests never see the invite code
+    family: family ? [requester && isLimitedRole(requester.role) ? { ...family, inviteCode: null } : family] : [],
+    users: members,
+    sessions: sessionRows,
+    devices: deviceRows,
+    device_alerts: deviceAlertRows,
+    guardianships: guardianshipRows,
+    family_invites: inviteRows,
+    membership_requests: membershipRequestRows,
+    locations: locationRows,
+    status_updates: statusRows,
+    sos_sessions: sosRows,
+    sos_acknowledgements: acknowledgementRows,
+    favorite_places: placeRows,
+    daily_stats: statsRows,
+    geofences: geofenceRows,
+    geofence_events: geofenceEventRows,
+    ping_requests: pingRows,
+    location_requests: locationRequestRows,
+    chat_messages: chatRows,
+    screen_time_limits: screenTimeRows,
+    blocked_apps: blockedAppRows,
+    browsing_history: browsingRows,
+    blocked_websites: blockedWebsiteRows,
+    crash_events: crashRows,
+    crash_event_logs: crashLogRows,
+    emergency_contacts: contactRows,
+    location_reminders: reminderRows,
+    driving_sessions: drivingRows,
+    driving_events: drivingEventRows,
+  };
+}
+
+export async function buildExportArchive(exportJob: DataExport): Promise<Buffer> {
+  const tables = await collectTables(exportJob);
+  const generatedAt = new Date();
+
+  const manifest = {
+    exportId: exportJob.id,
+    scope: exportJob.scope,
+    familyId: exportJob.familyId,
+    requestedById: exportJob.requestedById,
+    generatedAt: generatedAt.toISOString(),
+    tables: Object.fromEntries(Object.entries(tables).map(([name, rows]) => [name, rows.length])),
+  };
+
+  return createZip([
+    { name: 'manifest.json', data: JSON.stringify(manifest, null, 2) },
+    ...Object.entries(tables).map(([name, rows]) => ({
+      name: `${name}.json`,
+      data: JSON.stringify(rows, null, 2),
+    })),
+  ], generatedAt);
+}
+
+// Build one export. Only the caller that moves it out of 'pending' proceeds,
+// so the scheduled job and the request that queued it cannot both run it.
+export async function processDataExport(exportId: string): Promise<boolean> {
+  const [exportJob] = await db.update(dataExports)
+    .set({ status: 'processing', startedAt: new Date() })
+    .where(and(eq(dataExports.id, exportId), eq(dataExports.status, 'pending')))
+    .returning();
+
+  if (!exportJob) return false;
+
+  try {
+    const archive = await buildExportArchive(exportJob);
+    const completedAt = new Date();
+    // Skipped if it was failed as stalled in the meantime
+    const [ready] = await db.update(dataExports)
+      .set({
+        status: 'ready',
+        archive,
+        sizeBytes: archive.length,
+        completedAt,
+        expiresAt: new Date(completedAt.getTime() + EXPORT_RETENTION_HOURS * 60 * 60 * 1000),
+      })
+      .where(and(eq(dataExports.id, exportJob.id), eq(dataExports.status, 'processing')))
+      .returning({ id: dataExports.id });
+    if (!ready) return false;
+
+    await notifyDataExportReady(exportJob);
+    return true;
+  } catch (error) {
+    console.error(`Data export ${exportJob.id} failed:`, error);
+    await db.update(dataExports)
+      .set({ status: 'failed', error: error instanceof Error ? error.message : String(error), completedAt: new Date() })
+      .where(eq(dataExports.id, exportJob.id));
+    return false;
+  }
+}
+
+// Scheduled job: fail stalled builds, build queued exports and drop archives
+// past their expiry
+export async function runDataExportJob(): Promise<{ processed: number; stalled: number; expired: number }> {
+  const stalled = await failStalledExports();
+
+  const pending = await db.query.dataExports.findMany({
+    where: eq(dataExports.status, 'pending'),
+    columns: { id: true },
+  });
+
+  let processed = 0;
+  for (const { id } of pending) {
+    if (await processDataExport(id)) processed++;
+  }
+
+  const expired = await db.update(dataExports)
+    .set({ status: 'expired', archive: null })
+    .where(and(eq(dataExports.status, 'ready'), lt(dataExports.expiresAt, new Date())))
+    .returning({ id: dataExports.id });
+
+  return { processed, stalled, expired: expired.length };
+}
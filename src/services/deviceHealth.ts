@@ -0,0 +1,166 @@
+import { eq, and, or, lt, isNull, inArray } from 'drizzle-orm';
+import { db, users, devices, deviceAlerts, Device, DeviceAlert } from '../db';
+import { generateId } from '../utils/codes';
+import { notifyDeviceAlert } from './notifications';
+
+// A child's device that has not checked in for this long raises "no check-in"
+export const CHECK_IN_TIMEOUT_MINUTES = parseInt(process.env.DEVICE_CHECK_IN_TIMEOUT_MINUTES || '60');
+
+const LOW_BATTERY_PERCENT = 10;
+
+export type DeviceAlertType = DeviceAlert['type'];
+
+// What the app reports; fields left out keep their last reported value
+export interface DeviceHealthReport {
+  locationPermission?: Device['locationPermission'];
+  locationEnabled?: boolean;
+  batteryLevel?: number;
+  isCharging?: boolean;
+  connectivity?: Device['connectivity'];
+  event?: 'heartbeat' | 'app_removed';
+}
+
+// The rules: which problems a device has right now
+export function getDeviceProblems(device: Device, now: Date = new Date()): DeviceAlertType[] {
+  const problems: DeviceAlertType[] = [];
+
+  if (device.appRemovedAt) {
+    // Nothing else can be trusted once the app is gone
+    return ['app_removed'];
+  }
+
+  if (device.locationPermission === 'denied' || device.locationEnabled === false) {
+    problems.push('location_off');
+  }
+
+  if (device.batteryLevel !== null && device.batteryLevel < LOW_BATTERY_PERCENT && !device.isCharging) {
+    problems.push('battery_low');
+  }
+
+  if (device.lastCheckInAt.getTime() < now.getTime() - CHECK_IN_TIMEOUT_MINUTES * 60 * 1000) {
+    problems.push('no_check_in');
+  }
+
+  return problems;
+}
+
+// Open alerts for new problems (notifying the child's parents) and resolve the
+// ones that cleared. Only children's devices are watched.
+export async function evaluateDeviceHealth(device: Device, now: Date = new Date()): Promise<DeviceAlert[]> {
+  const owner = await db.query.users.findFirst({
+    where: eq(users.id, device.userId),
+  });
+  if (owner?.role !== 'child') return [];
+
+  const problems = getDeviceProblems(device, now);
+  const openAlerts = await db.query.deviceAlerts.findMany({
+    where: and(eq(deviceAlerts.deviceId, device.id), isNull(deviceAlerts.resolvedAt)),
+  });
+
+  const cleared = openAlerts.filter((alert) => !problems.includes(alert.type));
+  if (cleared.length > 0) {
+    await db.update(deviceAlerts)
+      .set({ resolvedAt: now })
+      .where(inArray(deviceAlerts.id, cleared.map((alert) => alert.id)));
+  }
+
+  const raised: DeviceAlert[] = [];
+  for (const type of problems) {
+    if (openAlerts.some((alert) => alert.type === type)) continue;
+
+    const alert: DeviceAlert = {
+      id: generateId(),
+      deviceId: device.id,
+      userId: device.userId,
+      type,
+      startedAt: now,
+      resolvedAt: null,
+    };
+    await db.insert(deviceAlerts).values(alert);
+    await notifyDeviceAlert(owner, device, alert, CHECK_IN_TIMEOUT_MINUTES);
+    raised.push(alert);
+  }
+
+  return raised;
+}
+
+// Store a health report as the device's latest state and check it in. An
+// uninstall heartbeat marks the app as removed until the device checks in again.
+export async function recordHealthReport(device: Device, report: DeviceHealthReport): Promise<Device> {
+  const now = new Date();
+  const updates: Partial<Device> = {
+    locationPermission: report.locationPermission ?? device.locationPermission,
+    locationEnabled: report.locationEnabled ?? device.locationEnabled,
+    batteryLevel: report.batteryLevel ?? device.batteryLevel,
+    isCharging: report.isCharging ?? device.isCharging,
+    connectivity: report.connectivity ?? device.connectivity,
+    appRemovedAt: report.event === 'app_removed' ? now : null,
+  };
+  if (report.event !== 'app_removed') {
+    updates.lastCheckInAt = now;
+  }
+
+  await db.update(devices)
+    .set(updates)
+    .where(eq(devices.id, device.id));
+
+  const updated = { ...device, ...updates };
+  await evaluateDeviceHealth(updated, now);
+  return updated;
+}
+
+// FCM rejects the push token of an app that was uninstalled, so a child's
+// device whose token turned invalid counts as having the app removed, the same
+// as if it had sent the uninstall heartbeat
+export async function markAppRemoved(device: Device): Promise<void> {
+  if (device.appRemovedAt) return;
+
+  const owner = await db.query.users.findFirst({
+    where: eq(users.id, device.userId),
+  });
+  if (owner?.role !== 'child') return;
+
+  const now = new Date();
+  await db.update(devices)
+    .set({ appRemovedAt: now })
+    .where(eq(devices.id, device.id));
+
+  await evaluateDeviceHealth({ ...device, appRemovedAt: now }, now);
+}
+
+export async function getOpenAlerts(deviceIds: string[]): Promise<DeviceAlert[]> {
+  if (deviceIds.length === 0) return [];
+  return db.query.deviceAlerts.findMany({
+    where: and(inArray(deviceAlerts.deviceId, deviceIds), isNull(deviceAlerts.resolvedAt)),
+  });
+}
+
+// Scheduled: raise "no check-in" for silent devices, and resolve it for devices
+// that checked in some other way (login, push token update) since
+export async function runDeviceHealthJob(): Promise<{ checked: number; raised: number }> {
+  const now = new Date();
+  const cutoff = new Date(now.getTime() - CHECK_IN_TIMEOUT_MINUTES * 60 * 1000);
+
+  const openCheckIns = await db.query.deviceAlerts.findMany({
+    where: and(eq(deviceAlerts.type, 'no_check_in'), isNull(deviceAlerts.resolvedAt)),
+  });
+  const openIds = openCheckIns.map((alert) => alert.deviceId);
+
+  const candidates = await db.select({ device: devices })
+    .from(devices)
+    .innerJoin(users, eq(users.id, devices.userId))
+    .where(and(
+      eq(users.role, 'child'),
+      or(
+        lt(devices.lastCheckInAt, cutoff),
+        openIds.length > 0 ? inArray(devices.id, openIds) : undefined
+      )
+    ));
+
+  let raised = 0;
+  for (const { device } of candidates) {
+    raised += (await evaluateDeviceHealth(device, now)).length;
+  }
+
+  return { checked: candidates.length, raised };
+}
@@ -0,0 +1,106 @@
+import { eq, and, ne, desc } from 'drizzle-orm';
+import { db, devices, Device } from '../db';
+import { generateId } from '../utils/codes';
+import { revokeDeviceSessions } from './sessions';
+
+export type DevicePlatform = Device['platform'];
+
+export const DEVICE_PLATFORMS: DevicePlatform[] = ['android', 'ios'];
+
+// What the app reports about the device it runs on
+export interface DeviceIdentity {
+  id: string; // install id
+  platform: DevicePlatform;
+  model?: string | null;
+  name?: string | null;
+  osVersion?: string | null;
+  appVersion?: string | null;
+}
+
+// Record a device for a user, or refresh it and its check-in time if the user
+// already has it
+export async function registerDevice(
+  userId: string,
+  identity: DeviceIdentity,
+  pairedById?: string | null
+): Promise<Device> {
+  const existing = await db.query.devices.findFirst({
+    where: and(eq(devices.userId, userId), eq(devices.deviceId, identity.id)),
+  });
+  const now = new Date();
+
+  if (existing) {
+    const updated = {
+      ...existing,
+      platform: identity.platform,
+      model: identity.model ?? existing.model,
+      name: identity.name ?? existing.name,
+      osVersion: identity.osVersion ?? existing.osVersion,
+      appVersion: identity.appVersion ?? existing.appVersion,
+      pairedById: pairedById ?? existing.pairedById,
+      lastCheckInAt: now,
+    };
+    await db.update(devices)
+      .set(updated)
+      .where(eq(devices.id, existing.id));
+    return updated;
+  }
+
+  const device: Device = {
+    id: generateId(),
+    userId,
+    deviceId: identity.id,
+    platform: identity.platform,
+    model: identity.model ?? null,
+    name: identity.name ?? null,
+    osVersion: identity.osVersion ?? null,
+    appVersion: identity.appVersion ?? null,
+    pushToken: null,
+    pairedById: pairedById ?? null,
+    locationPermission: null,
+    locationEnabled: null,
+    batteryLevel: null,
+    isCharging: null,
+    connectivity: null,
+    appRemovedAt: null,
+    createdAt: now,
+    lastCheckInAt: now,
+  };
+  await db.insert(devices).values(device);
+  return device;
+}
+
+// Set a device's push token. A token belongs to one app install, so it is taken
+// away from any other account that signed in on the same phone before.
+export async function setDevicePushToken(device: Device, pushToken: string | null): Promise<Device> {
+  if (pushToken) {
+    await db.update(devices)
+      .set({ pushToken: null })
+      .where(and(eq(devices.pushToken, pushToken), ne(devices.id, device.id)));
+  }
+
+  const updated = { ...device, pushToken, lastCheckInAt: new Date() };
+  await db.update(devices)
+    .set({ pushToken, lastCheckInAt: updated.lastCheckInAt })
+    .where(eq(devices.id, device.id));
+  return updated;
+}
+
+export async function listDevices(userId: string): Promise<Device[]> {
+  return db.query.devices.findMany({
+    where: eq(devices.userId, userId),
+    orderBy: desc(devices.lastCheckInAt),
+  });
+}
+
+// Forget a device and sign it out
+export async function removeDevice(device: Device): Promise<void> {
+  await db.delete(devices).where(eq(devices.id, device.id));
+  await revokeDeviceSessions(device.id);
+}
+
+// Device as shown to the user or their guardians; the push token stays private
+export function toDeviceSummary(device: Device) {
+  const { pushToken, ...summary } = device;
+  return { ...summary, hasPushToken: !!pushToken };
+}
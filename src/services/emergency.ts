@@ -0,0 +1,130 @@
+import { eq, and, lte, asc } from 'drizzle-orm';
+import { db, users, crashEvents, crashEventLogs, emergencyContacts, CrashEventLog, EmergencyContact } from '../db';
+import { generateId } from '../utils/codes';
+import { notifyCrashEscalated } from './notifications';
+import { publishFamilyEvent } from './events';
+
+export const CRASH_COUNTDOWN_SECONDS = parseInt(process.env.CRASH_COUNTDOWN_SECONDS || '60');
+
+export interface ContactAlert {
+  contact: EmergencyContact;
+  userName: string;
+  latitude: number;
+  longitude: number;
+  address: string | null;
+}
+
+// Delivers an alert to an emergency contact outside the app (SMS, e-mail, ...)
+export interface ContactAlertTransport {
+  alert(alert: ContactAlert): Promise<void>;
+}
+
+// Logs alerts instead of sending them (default until an SMS provider is configured)
+export class ConsoleContactAlertTransport implements ContactAlertTransport {
+  async alert({ contact, userName, latitude, longitude, address }: ContactAlert): Promise<void> {
+    console.log(
+      `[emergency] Alerting ${contact.name} (${contact.phone || contact.email}): ` +
+      `possible crash for ${userName} at ${address || `${latitude},${longitude}`}`
+    );
+  }
+}
+
+let contactTransport: ContactAlertTransport = new ConsoleContactAlertTransport();
+
+export function setContactAlertTransport(next: ContactAlertTransport): void {
+  contactTransport = next;
+}
+
+export async function logCrashAction(
+  crashEventId: string,
+  action: CrashEventLog['action'],
+  details: Record<string, any> | null = null
+): Promise<void> {
+  await db.insert(crashEventLogs).values({
+    id: generateId(),
+    crashEventId,
+    action,
+    details,
+    createdAt: new Date(),
+  });
+}
+
+// Escalate a crash event: notify parents, alert emergency contacts and mark
+// it emergency_sent. Only the caller that moves it out of 'detected' proceeds,
+// so the countdown job and a 'help' response cannot both escalate.
+export async function escalateCrash(
+  crashEventId: string,
+  reason: 'help_requested' | 'countdown_expired'
+): Promise<boolean> {
+  const now = new Date();
+  const [event] = await db.update(crashEvents)
+    .set({
+      status: 'emergency_sent',
+      eventType: 'confirmed_crash',
+      respondedAt: reason === 'help_requested' ? now : null,
+    })
+    .where(and(eq(crashEvents.id, crashEventId), eq(crashEvents.status, 'detected')))
+    .returning();
+
+  if (!event) return false;
+
+  await logCrashAction(event.id, reason);
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, event.userId),
+  });
+  const userName = user?.displayName || 'Unknown';
+
+  const parentsNotified = await notifyCrashEscalated({ id: event.userId, displayName: userName }, event);
+  await logCrashAction(event.id, 'parents_notified', { pushesSent: parentsNotified });
+
+  const contacts = await db.query.emergencyContacts.findMany({
+    where: and(eq(emergencyContacts.userId, event.userId), eq(emergencyContacts.notifyOnCrash, true)),
+    orderBy: [asc(emergencyContacts.priority)],
+  });
+
+  const alerted: string[] = [];
+  for (const contact of contacts) {
+    try {
+      await contactTransport.alert({
+        contact,
+        userName,
+        latitude: event.latitude,
+        longitude: event.longitude,
+        address: event.address,
+      });
+      alerted.push(contact.id);
+      await logCrashAction(event.id, 'contact_alerted', { contactId: contact.id, name: contact.name });
+    } catch (error) {
+      console.error(`Emergency contact ${contact.id} alert failed:`, error);
+      await logCrashAction(event.id, 'contact_alert_failed', { contactId: contact.id, name: contact.name });
+    }
+  }
+
+  await db.update(crashEvents)
+    .set({ emergencyContacts: alerted })
+    .where(eq(crashEvents.id, event.id));
+  await logCrashAction(event.id, 'emergency_sent', { contactsAlerted: alerted.length });
+
+  publishFamilyEvent(user?.familyId, 'crash', {
+    userId: event.userId,
+    event: { ...event, emergencyContacts: alerted },
+  });
+
+  return true;
+}
+
+// Escalate every crash whose response countdown has run out
+export async function escalateExpiredCrashes(): Promise<number> {
+  const expired = await db.query.crashEvents.findMany({
+    where: and(eq(crashEvents.status, 'detected'), lte(crashEvents.escalateAt, new Date())),
+  });
+
+  let escalated = 0;
+  for (const event of expired) {
+    if (await escalateCrash(event.id, 'countdown_expired')) {
+      escalated++;
+    }
+  }
+  return escalated;
+}
@@ -0,0 +1,72 @@
+import { EventEmitter } from 'events';
+
+export type FamilyEventType =
+  | 'location'
+  | 'status'
+  | 'sos'
+  | 'geofence'
+  | 'chat_message'
+  | 'ping_acknowledged'
+  | 'crash'
+  | 'presence';
+
+export interface FamilyEvent {
+  type: FamilyEventType;
+  familyId: string;
+  data: Record<string, any>;
+  timestamp: string;
+}
+
+export type FamilyEventListener = (event: FamilyEvent) => void;
+
+// Pub/sub for family-scoped realtime events. The in-memory bus only reaches
+// subscribers on the same instance; swap in a broker-backed bus with setEventBus.
+export interface EventBus {
+  publish(event: FamilyEvent): void;
+  subscribe(familyId: string, listener: FamilyEventListener): () => void;
+}
+
+export class InMemoryEventBus implements EventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: FamilyEvent): void {
+    this.emitter.emit(event.familyId, event);
+  }
+
+  subscribe(familyId: string, listener: FamilyEventListener): () => void {
+    this.emitter.on(familyId, listener);
+    return () => {
+      this.emitter.off(familyId, listener);
+    };
+  }
+}
+
+let bus: EventBus = new InMemoryEventBus();
+
+export function getEventBus(): EventBus {
+  return bus;
+}
+
+export function setEventBus(next: EventBus): void {
+  bus = next;
+}
+
+// Publish to a family's subscribers. Never throws, like the notification dispatcher.
+export function publishFamilyEvent(
+  familyId: string | null | undefined,
+  type: FamilyEventType,
+  data: Record<string, any>
+): void {
+  if (!familyId) return;
+
+  try {
+    bus.publish({ type, familyId, data, timestamp: new Date().toISOString() });
+  } catch (error) {
+    console.error('Event publish error:', error);
+  }
+}
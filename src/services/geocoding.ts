@@ -0,0 +1,179 @@
+import { eq } from 'drizzle-orm';
+import { db, geocodeCache } from '../db';
+import { calculateDistance } from '../utils/geofence';
+
+// Providers turn coordinates into a human-readable address; swap with
+// setGeocodingProvider for tests or another service
+export interface GeocodingProvider {
+  name: string;
+  minIntervalMs?: number; // least time between two requests, if rate limited
+  reverse(latitude: number, longitude: number): Promise<string | null>;
+}
+
+const REQUEST_TIMEOUT_MS = 3000;
+
+// Nominatim (OpenStreetMap) reverse geocoding. The public instance requires an
+// identifying User-Agent and at most one request per second.
+export class NominatimProvider implements GeocodingProvider {
+  name = 'nominatim';
+  minIntervalMs = 1000;
+
+  constructor(
+    private baseUrl: string,
+    private userAgent: string
+  ) {}
+
+  async reverse(latitude: number, longitude: number): Promise<string | null> {
+    const url = `${this.baseUrl}/reverse?format=jsonv2&zoom=18&lat=${latitude}&lon=${longitude}`;
+    const response = await fetch(url, {
+      headers: { 'User-Agent': this.userAgent, Accept: 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Nominatim request failed: ${response.status}`);
+    }
+
+    const data = await response.json() as { display_name?: string; error?: string };
+    return data.display_name || null;
+  }
+}
+
+// Resolves against a fixed list of known places and falls back to formatted
+// coordinates. Makes no network calls (default when no provider is configured).
+export class OfflineProvider implements GeocodingProvider {
+  name = 'offline';
+
+  constructor(
+    private places: Array<{ latitude: number; longitude: number; address: string }> = [],
+    private radiusMeters = 200
+  ) {}
+
+  async reverse(latitude: number, longitude: number): Promise<string | null> {
+    let closest: { address: string; distance: number } | null = null;
+    for (const place of this.places) {
+      const distance = calculateDistance(latitude, longitude, place.latitude, place.longitude);
+      if (distance <= this.radiusMeters && (!closest || distance < closest.distance)) {
+        closest = { address: place.address, distance };
+      }
+    }
+    return closest ? closest.address : `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`;
+  }
+}
+
+let provider: GeocodingProvider | null = null;
+
+function createDefaultProvider(): GeocodingProvider {
+  if (process.env.GEOCODING_PROVIDER === 'nominatim') {
+    return new NominatimProvider(
+      process.env.GEOCODING_URL || 'https://nominatim.openstreetmap.org',
+      process.env.GEOCODING_USER_AGENT || 'praesidium-backend'
+    );
+  }
+
+  return new OfflineProvider();
+}
+
+export function getGeocodingProvider(): GeocodingProvider {
+  if (!provider) {
+    provider = createDefaultProvider();
+  }
+  return provider;
+}
+
+export function setGeocodingProvider(next: GeocodingProvider): void {
+  provider = next;
+}
+
+const CACHE_TTL_DAYS = parseInt(process.env.GEOCODE_CACHE_DAYS || '30');
+
+// Lookups waiting for a rate-limited provider beyond this are given up on
+// rather than holding their requests for minutes
+const MAX_QUEUED_LOOKUPS = 20;
+
+let queue: Promise<unknown> = Promise.resolve();
+let queued = 0;
+let lastRequestAt = 0;
+
+// Call the provider one request at a time, spaced by its minimum interval.
+// Resolves to undefined when the queue is full.
+function enqueueLookup(
+  current: GeocodingProvider,
+  latitude: number,
+  longitude: number
+): Promise<string | null | undefined> {
+  if (!current.minIntervalMs) {
+    return current.reverse(latitude, longitude);
+  }
+  if (queued >= MAX_QUEUED_LOOKUPS) {
+    return Promise.resolve(undefined);
+  }
+
+  const interval = current.minIntervalMs;
+  queued++;
+  const lookup = queue.then(async () => {
+    const wait = lastRequestAt + interval - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    lastRequestAt = Date.now();
+    return current.reverse(latitude, longitude);
+  }).finally(() => {
+    queued--;
+  });
+  queue = lookup.catch(() => undefined);
+  return lookup;
+}
+
+// 4 decimal places is ~11 m, about the accuracy of a phone fix
+function cacheKey(latitude: number, longitude: number): string {
+  return `${latitude.toFixed(4)},${longitude.toFixed(4)}`;
+}
+
+// Address for a coordinate, or null if unknown. Never throws: an address is
+// a nicety and must not fail the request that asked for it.
+export async function reverseGeocode(
+  latitude: number | null | undefined,
+  longitude: number | null | undefined
+): Promise<string | null> {
+  if (latitude === null || latitude === undefined || longitude === null || longitude === undefined) {
+    return null;
+  }
+
+  const key = cacheKey(latitude, longitude);
+  const current = getGeocodingProvider();
+
+  try {
+    const cached = await db.query.geocodeCache.findFirst({
+      where: eq(geocodeCache.key, key),
+    });
+    const fresh = cached &&
+      cached.provider === current.name &&
+      Date.now() - cached.createdAt.getTime() < CACHE_TTL_DAYS * 24 * 60 * 60 * 1000;
+    if (fresh) {
+      return cached.address;
+    }
+
+    // Look up the rounded point so the cached answer holds for the whole cell
+    const rounded = { latitude: parseFloat(latitude.toFixed(4)), longitude: parseFloat(longitude.toFixed(4)) };
+    const address = await enqueueLookup(current, rounded.latitude, rounded.longitude);
+    if (address === undefined) return null;
+
+    const entry = {
+      key,
+      ...rounded,
+      address,
+      provider: current.name,
+      createdAt: new Date(),
+    };
+    await db.insert(geocodeCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: geocodeCache.key,
+        set: { address: entry.address, provider: entry.provider, createdAt: entry.createdAt },
+      });
+
+    return address;
+  } catch (error) {
+    console.error('Reverse geocoding error:', error);
+    return null;
+  }
+}
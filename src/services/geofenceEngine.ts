@@ -0,0 +1,250 @@
+import { eq, and, desc } from 'drizzle-orm';
+import { db, geofences, geofenceEvents, locationReminders, Geofence } from '../db';
+import { generateId } from '../utils/codes';
+import { getBoundaryDistance, isGeofenceActiveNow } from '../utils/geofence';
+import { notifyGeofenceEvent, notifyLocationReminder } from './notifications';
+import { getUserTimezone } from './timezone';
+import { publishFamilyEvent } from './events';
+import { reverseGeocode } from './geocoding';
+
+// A fix must be this far outside the fence (or its accuracy, if worse) before
+// it counts as an exit, so GPS jitter at the edge does not produce exit/enter pairs
+const EXIT_HYSTERESIS_METERS = 30;
+
+// Fixes less accurate than this never change geofence state
+const MAX_ACCURACY_METERS = 150;
+
+type GeofenceState = 'enter' | 'exit' | 'dwell';
+
+export interface LocationPoint {
+  latitude: number;
+  longitude: number;
+  accuracy?: number | null;
+  timestamp: Date;
+}
+
+export interface GeofenceTransition {
+  geofenceId: string;
+  geofenceName: string;
+  eventType: GeofenceState;
+  timestamp: Date;
+  address: string | null;
+}
+
+export interface TriggeredReminder {
+  id: string;
+  geofenceId: string;
+  triggerType: 'enter' | 'exit';
+  message: string;
+}
+
+export interface GeofenceEvaluation {
+  events: GeofenceTransition[];
+  currentZones: string[];
+  reminders: TriggeredReminder[];
+}
+
+// Active geofences in the user's family that apply to them, and the timezone
+// their schedules are read in
+async function getUserGeofences(
+  user: { id: string; familyId: string | null }
+): Promise<{ fences: Geofence[]; timezone: string }> {
+  if (!user.familyId) return { fences: [], timezone: 'UTC' };
+
+  const familyGeofences = await db.query.geofences.findMany({
+    where: and(
+      eq(geofences.familyId, user.familyId),
+      eq(geofences.isActive, true)
+    ),
+  });
+
+  return {
+    fences: familyGeofences.filter((g) => !g.childId || g.childId === user.id),
+    timezone: await getUserTimezone(user.id),
+  };
+}
+
+// Last event per geofence for this user
+async function getLastStates(
+  userId: string,
+  fences: Geofence[]
+): Promise<Map<string, { eventType: GeofenceState; timestamp: Date }>> {
+  const lastStateMap = new Map<string, { eventType: GeofenceState; timestamp: Date }>();
+
+  await Promise.all(fences.map(async (geofence) => {
+    const lastEvent = await db.query.geofenceEvents.findFirst({
+      where: and(
+        eq(geofenceEvents.childId, userId),
+        eq(geofenceEvents.geofenceId, geofence.id)
+      ),
+      orderBy: [desc(geofenceEvents.timestamp)],
+    });
+
+    if (lastEvent) {
+      lastStateMap.set(geofence.id, { eventType: lastEvent.eventType, timestamp: lastEvent.timestamp });
+    }
+  }));
+
+  return lastStateMap;
+}
+
+// Fire the active reminders attached to a geofence transition
+async function triggerReminders(
+  userId: string,
+  transition: GeofenceTransition & { eventType: 'enter' | 'exit' }
+): Promise<TriggeredReminder[]> {
+  const reminders = await db.query.locationReminders.findMany({
+    where: and(
+      eq(locationReminders.childId, userId),
+      eq(locationReminders.geofenceId, transition.geofenceId),
+      eq(locationReminders.triggerType, transition.eventType),
+      eq(locationReminders.isActive, true)
+    ),
+  });
+
+  const triggered: TriggeredReminder[] = [];
+
+  for (const reminder of reminders) {
+    await db.update(locationReminders)
+      .set({
+        lastTriggered: transition.timestamp,
+        // One-shot reminders retire after firing
+        isActive: reminder.isRepeating !== false,
+      })
+      .where(eq(locationReminders.id, reminder.id));
+
+    await notifyLocationReminder(reminder, transition.geofenceName);
+
+    triggered.push({
+      id: reminder.id,
+      geofenceId: transition.geofenceId,
+      triggerType: transition.eventType,
+      message: reminder.message,
+    });
+  }
+
+  return triggered;
+}
+
+// Decide the next event for one geofence, if any. Inside is 'enter' or 'dwell';
+// the band between the fence and the exit buffer keeps the previous state.
+function nextEvent(
+  geofence: Geofence,
+  point: LocationPoint,
+  lastState: { eventType: GeofenceState; timestamp: Date } | undefined
+): GeofenceState | null {
+  if (point.accuracy && point.accuracy > MAX_ACCURACY_METERS) {
+    return null;
+  }
+
+  const boundaryDistance = getBoundaryDistance(point.latitude, point.longitude, geofence);
+  const wasInside = lastState?.eventType === 'enter' || lastState?.eventType === 'dwell';
+  const exitBuffer = Math.max(EXIT_HYSTERESIS_METERS, point.accuracy || 0);
+
+  if (!wasInside) {
+    return boundaryDistance <= 0 ? 'enter' : null;
+  }
+
+  if (boundaryDistance > exitBuffer) {
+    return 'exit';
+  }
+
+  const dwellMs = (geofence.dwellMinutes || 0) * 60 * 1000;
+  if (
+    lastState.eventType === 'enter' &&
+    dwellMs > 0 &&
+    boundaryDistance <= 0 &&
+    point.timestamp.getTime() - lastState.timestamp.getTime() >= dwellMs
+  ) {
+    return 'dwell';
+  }
+
+  return null;
+}
+
+// Run the enter/exit/dwell state machine for one location fix. Transitions are
+// always recorded; the geofence's notify flags only decide who gets pushed.
+export async function evaluateLocation(
+  user: { id: string; displayName: string; familyId: string | null },
+  point: LocationPoint
+): Promise<GeofenceEvaluation> {
+  return evaluateLocations(user, [point]);
+}
+
+// Run the state machine over fixes in time order, e.g. a synced batch.
+// Geofences and their last states are loaded once and carried in memory, so
+// only transitions touch the database. Events and reminders cover every fix;
+// currentZones is where the last one is.
+export async function evaluateLocations(
+  user: { id: string; displayName: string; familyId: string | null },
+  points: LocationPoint[]
+): Promise<GeofenceEvaluation> {
+  const events: GeofenceTransition[] = [];
+  const reminders: TriggeredReminder[] = [];
+  let currentZones: string[] = [];
+
+  const { fences, timezone } = await getUserGeofences(user);
+  if (fences.length === 0) {
+    return { events, currentZones, reminders };
+  }
+
+  const lastStateMap = await getLastStates(user.id, fences);
+
+  for (const point of points) {
+    const activeGeofences = fences.filter((g) => isGeofenceActiveNow(g.schedule, timezone, point.timestamp));
+    currentZones = [];
+    let address: string | null | undefined;
+
+    for (const geofence of activeGeofences) {
+      const lastState = lastStateMap.get(geofence.id);
+      const eventType = nextEvent(geofence, point, lastState);
+      const state = eventType || lastState?.eventType;
+
+      if (state === 'enter' || state === 'dwell') {
+        currentZones.push(geofence.name);
+      }
+
+      if (!eventType) continue;
+
+      // Geocode once per fix, and only when something happened
+      if (address === undefined) {
+        address = await reverseGeocode(point.latitude, point.longitude);
+      }
+
+      await db.insert(geofenceEvents).values({
+        id: generateId(),
+        geofenceId: geofence.id,
+        childId: user.id,
+        eventType,
+        latitude: point.latitude,
+        longitude: point.longitude,
+        address,
+        timestamp: point.timestamp,
+      });
+      lastStateMap.set(geofence.id, { eventType, timestamp: point.timestamp });
+
+      const transition = {
+        geofenceId: geofence.id,
+        geofenceName: geofence.name,
+        eventType,
+        timestamp: point.timestamp,
+        address,
+      };
+      events.push(transition);
+      publishFamilyEvent(user.familyId, 'geofence', { childId: user.id, ...transition });
+
+      const shouldNotify = eventType === 'enter'
+        ? geofence.notifyEnter
+        : eventType === 'exit' ? geofence.notifyExit : true;
+      if (shouldNotify) {
+        await notifyGeofenceEvent(user, geofence, eventType);
+      }
+
+      if (eventType !== 'dwell') {
+        reminders.push(...await triggerReminders(user.id, { ...transition, eventType }));
+      }
+    }
+  }
+
+  return { events, currentZones, reminders };
+}
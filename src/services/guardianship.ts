@@ -0,0 +1,275 @@
+import { eq, and, or, ne, inArray, isNotNull } from 'drizzle-orm';
+import { db, users, guardianships, Guardianship, User } from '../db';
+import { generateId } from '../utils/codes';
+import { isLimitedRole } from './memberAccess';
+
+export type GuardianPermission = 'viewLocation' | 'manageLimits' | 'viewBrowsing' | 'receiveSos';
+
+export type GuardianPermissions = Record<GuardianPermission, boolean>;
+
+export const GUARDIAN_PERMISSIONS: GuardianPermission[] = ['viewLocation', 'manageLimits', 'viewBrowsing', 'receiveSos'];
+
+// The primary parent (users.parentId) can do everything
+const PRIMARY_PERMISSIONS: GuardianPermissions = {
+  viewLocation: true,
+  manageLimits: true,
+  viewBrowsing: true,
+  receiveSos: true,
+};
+
+// What other parents in the family get when access is granted automatically
+export const DEFAULT_GUARDIAN_PERMISSIONS: GuardianPermissions = {
+  viewLocation: true,
+  manageLimits: false,
+  viewBrowsing: false,
+  receiveSos: true,
+};
+
+const PERMISSION_COLUMNS = {
+  viewLocation: guardianships.canViewLocation,
+  manageLimits: guardianships.canManageLimits,
+  viewBrowsing: guardianships.canViewBrowsing,
+  receiveSos: guardianships.canReceiveSos,
+};
+
+export function toPermissions(row: Guardianship): GuardianPermissions {
+  return {
+    viewLocation: row.canViewLocation,
+    manageLimits: row.canManageLimits,
+    viewBrowsing: row.canViewBrowsing,
+    receiveSos: row.canReceiveSos,
+  };
+}
+
+function toColumns(permissions: GuardianPermissions) {
+  return {
+    canViewLocation: permissions.viewLocation,
+    canManageLimits: permissions.manageLimits,
+    canViewBrowsing: permissions.viewBrowsing,
+    canReceiveSos: permissions.receiveSos,
+  };
+}
+
+// What a user may do for a child, or null if they are not a guardian
+export async function getGuardianPermissions(
+  guardianId: string,
+  child: { id: string; parentId: string | null }
+): Promise<GuardianPermissions | null> {
+  if (child.parentId === guardianId) {
+    return PRIMARY_PERMISSIONS;
+  }
+
+  const row = await db.query.guardianships.findFirst({
+    where: and(eq(guardianships.childId, child.id), eq(guardianships.guardianId, guardianId)),
+  });
+
+  return row ? toPermissions(row) : null;
+}
+
+// Load a child the user is a guardian of, optionally requiring a permission.
+// This is the one place route handlers check parent-child access.
+export async function findGuardedChild(
+  guardianId: string,
+  childId: string,
+  permission?: GuardianPermission
+): Promise<User | undefined> {
+  const child = await db.query.users.findFirst({
+    where: and(eq(users.id, childId), eq(users.role, 'child')),
+  });
+  if (!child) return undefined;
+
+  const permissions = await getGuardianPermissions(guardianId, child);
+  if (!permissions || (permission && !permissions[permission])) {
+    return undefined;
+  }
+
+  return child;
+}
+
+type LocationViewer = { id: string; role: string; familyId: string | null };
+type LocationSubject = { id: string; role: string; familyId: string | null };
+
+function isLocationVisible(viewer: LocationViewer, subject: LocationSubject, guardedIds: Set<string>): boolean {
+  if (viewer.id === subject.id) return true;
+  if (!subject.familyId || subject.familyId !== viewer.familyId) return false;
+  // Caregivers and guests are let into the location feature to look after
+  // the children, not to follow the adults
+  if (isLimitedRole(viewer.role)) return subject.role === 'child';
+  return subject.role === 'child' ? guardedIds.has(subject.id) : true;
+}
+
+// Whether a user may see another member's location. A child's location needs
+// the viewLocation permission; other members share theirs with the family.
+// Caregivers and guests see only the family's children.
+export async function canViewLocation(viewer: LocationViewer, subject: LocationSubject): Promise<boolean> {
+  const guarded = subject.role === 'child' && subject.id !== viewer.id && !isLimitedRole(viewer.role)
+    ? await findGuardedChild(viewer.id, subject.id, 'viewLocation')
+    : undefined;
+  return isLocationVisible(viewer, subject, new Set(guarded ? [guarded.id] : []));
+}
+
+// Ids of the family members whose location a user may see, for lists and
+// event streams that cover the whole family
+export async function getLocationVisibleIds(viewer: LocationViewer): Promise<Set<string>> {
+  if (!viewer.familyId) return new Set([viewer.id]);
+
+  const [members, guarded] = await Promise.all([
+    db.query.users.findMany({
+      where: eq(users.familyId, viewer.familyId),
+      columns: { id: true, role: true, familyId: true },
+    }),
+    getGuardedChildren(viewer.id, 'viewLocation'),
+  ]);
+  const guardedIds = new Set(guarded.map((child) => child.id));
+
+  return new Set(members.filter((member) => isLocationVisible(viewer, member, guardedIds)).map((member) => member.id));
+}
+
+// A status or SOS session without its coordinates, for callers who may see
+// the record but not where the member was
+export function withoutLocation<T extends { latitude: number | null; longitude: number | null }>(record: T): T {
+  return { ...record, latitude: null, longitude: null, ...('address' in record ? { address: null } : {}) };
+}
+
+export async function isPrimaryGuardian(guardianId: string, childId: string): Promise<boolean> {
+  const child = await db.query.users.findFirst({
+    where: eq(users.id, childId),
+  });
+  return child?.parentId === guardianId;
+}
+
+// Children a user is a guardian of, optionally only those with a permission
+export async function getGuardedChildren(guardianId: string, permission?: GuardianPermission): Promise<User[]> {
+  const rows = await db.query.guardianships.findMany({
+    where: and(
+      eq(guardianships.guardianId, guardianId),
+      permission ? eq(PERMISSION_COLUMNS[permission], true) : undefined
+    ),
+  });
+  const childIds = rows.map((row) => row.childId);
+
+  return db.query.users.findMany({
+    where: and(
+      eq(users.role, 'child'),
+      or(
+        eq(users.parentId, guardianId),
+        childIds.length > 0 ? inArray(users.id, childIds) : undefined
+      )
+    ),
+  });
+}
+
+// Guardians of a child, optionally only those with a permission
+export async function getGuardianIds(childId: string, permission?: GuardianPermission): Promise<string[]> {
+  const child = await db.query.users.findFirst({
+    where: eq(users.id, childId),
+  });
+  if (!child) return [];
+
+  const rows = await db.query.guardianships.findMany({
+    where: and(
+      eq(guardianships.childId, childId),
+      permission ? eq(PERMISSION_COLUMNS[permission], true) : undefined
+    ),
+  });
+
+  const ids = new Set(rows.map((row) => row.guardianId));
+  if (child.parentId) ids.add(child.parentId);
+  return [...ids];
+}
+
+// Create or update a guardianship. Permissions left out keep their current
+// value, or the default for a new guardian.
+export async function setGuardianship(
+  childId: string,
+  guardianId: string,
+  permissions: Partial<GuardianPermissions>,
+  grantedById: string
+): Promise<Guardianship> {
+  const existing = await db.query.guardianships.findFirst({
+    where: and(eq(guardianships.childId, childId), eq(guardianships.guardianId, guardianId)),
+  });
+  const given = Object.fromEntries(
+    Object.entries(permissions).filter(([, value]) => value !== undefined)
+  ) as Partial<GuardianPermissions>;
+  const now = new Date();
+
+  if (existing) {
+    const updated = { ...existing, ...toColumns({ ...toPermissions(existing), ...given }), updatedAt: now };
+    await db.update(guardianships)
+      .set(updated)
+      .where(eq(guardianships.id, existing.id));
+    return updated;
+  }
+
+  const row: Guardianship = {
+    id: generateId(),
+    childId,
+    guardianId,
+    ...toColumns({ ...DEFAULT_GUARDIAN_PERMISSIONS, ...given }),
+    grantedById,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await db.insert(guardianships).values(row);
+  return row;
+}
+
+// Give every other parent in the family default access to a child, e.g. when
+// the child pairs with one of them. Existing guardianships are left alone.
+// Returns how many were granted.
+export async function grantFamilyParentsAccess(
+  child: { id: string; familyId: string | null; parentId: string | null }
+): Promise<number> {
+  if (!child.familyId) return 0;
+
+  const parents = await db.query.users.findMany({
+    where: and(eq(users.familyId, child.familyId), eq(users.role, 'parent')),
+  });
+
+  let granted = 0;
+  for (const parent of parents) {
+    if (parent.id === child.parentId) continue;
+    const existing = await getGuardianPermissions(parent.id, child);
+    if (!existing) {
+      await setGuardianship(child.id, parent.id, DEFAULT_GUARDIAN_PERMISSIONS, child.parentId || parent.id);
+      granted++;
+    }
+  }
+  return granted;
+}
+
+// Give co-parents who were already in a family before guardianships existed
+// the access they would get today. Meant to run once after upgrading: running
+// it again would also restore guardianships revoked since.
+export async function backfillFamilyGuardianships(): Promise<number> {
+  const children = await db.query.users.findMany({
+    where: and(eq(users.role, 'child'), isNotNull(users.familyId)),
+  });
+
+  let granted = 0;
+  for (const child of children) {
+    granted += await grantFamilyParentsAccess(child);
+  }
+  return granted;
+}
+
+// Give a parent who joins a family default access to its children
+export async function grantAccessToFamilyChildren(parent: { id: string }, familyId: string) {
+  const children = await db.query.users.findMany({
+    where: and(eq(users.familyId, familyId), eq(users.role, 'child'), ne(users.id, parent.id)),
+  });
+
+  for (const child of children) {
+    const existing = await getGuardianPermissions(parent.id, child);
+    if (!existing) {
+      await setGuardianship(child.id, parent.id, DEFAULT_GUARDIAN_PERMISSIONS, child.parentId || parent.id);
+    }
+  }
+}
+
+// Drop guardianships that no longer make sense once a user leaves a family
+export async function revokeFamilyGuardianships(userId: string): Promise<void> {
+  await db.delete(guardianships)
+    .where(or(eq(guardianships.guardianId, userId), eq(guardianships.childId, userId)));
+}
@@ -0,0 +1,104 @@
+import { eq, and, or, lt, gt, isNull, desc, sql } from 'drizzle-orm';
+import { db, familyInvites, FamilyInvite, UserRole } from '../db';
+import { createInviteCode, generateId } from '../utils/codes';
+import { Schedule } from '../utils/schedule';
+import { MemberFeature, isLimitedRole } from './memberAccess';
+
+// Default lifetime of an invite code
+export const INVITE_TTL_HOURS = parseInt(process.env.INVITE_TTL_HOURS || '72');
+
+export const MAX_INVITE_USES = 50;
+
+export interface InviteOptions {
+  role: UserRole;
+  email?: string | null;
+  maxUses?: number;
+  expiresInHours?: number;
+  // Caregivers and guests only
+  allowedFeatures?: MemberFeature[];
+  accessSchedule?: Schedule | null;
+  accessExpiresAt?: Date | null;
+}
+
+export async function createInvite(
+  createdBy: { id: string; familyId: string },
+  options: InviteOptions
+): Promise<FamilyInvite> {
+  // Codes are short, so retry the rare collision with an existing invite
+  let code = createInviteCode();
+  while (await db.query.familyInvites.findFirst({ where: eq(familyInvites.code, code) })) {
+    code = createInviteCode();
+  }
+
+  const limited = isLimitedRole(options.role);
+  const now = new Date();
+  const invite: FamilyInvite = {
+    id: generateId(),
+    familyId: createdBy.familyId,
+    code,
+    role: options.role,
+    email: options.email || null,
+    maxUses: options.maxUses || 1,
+    useCount: 0,
+    allowedFeatures: limited ? [...new Set(options.allowedFeatures || [])] : null,
+    accessSchedule: limited ? options.accessSchedule ?? null : null,
+    accessExpiresAt: limited ? options.accessExpiresAt ?? null : null,
+    expiresAt: new Date(now.getTime() + (options.expiresInHours || INVITE_TTL_HOURS) * 60 * 60 * 1000),
+    createdById: createdBy.id,
+    revokedAt: null,
+    createdAt: now,
+  };
+  await db.insert(familyInvites).values(invite);
+
+  return invite;
+}
+
+// Invites that can still be redeemed
+export async function listOutstandingInvites(familyId: string): Promise<FamilyInvite[]> {
+  return db.query.familyInvites.findMany({
+    where: and(
+      eq(familyInvites.familyId, familyId),
+      isNull(familyInvites.revokedAt),
+      gt(familyInvites.expiresAt, new Date()),
+      lt(familyInvites.useCount, familyInvites.maxUses)
+    ),
+    orderBy: desc(familyInvites.createdAt),
+  });
+}
+
+export async function revokeInvite(familyId: string, inviteId: string): Promise<FamilyInvite | null> {
+  const [invite] = await db.update(familyInvites)
+    .set({ revokedAt: new Date() })
+    .where(and(
+      eq(familyInvites.id, inviteId),
+      eq(familyInvites.familyId, familyId),
+      isNull(familyInvites.revokedAt)
+    ))
+    .returning();
+
+  return invite || null;
+}
+
+// Use up one redemption of a code. The use count only moves while it is below
+// maxUses, so concurrent redemptions cannot overshoot it. Returns null when the
+// code is unknown, used up, expired, revoked, for another role or bound to
+// another email address.
+export async function claimInvite(
+  code: string,
+  redeemer: { role: UserRole; email: string }
+): Promise<FamilyInvite | null> {
+  const now = new Date();
+  const [invite] = await db.update(familyInvites)
+    .set({ useCount: sql`${familyInvites.useCount} + 1` })
+    .where(and(
+      eq(familyInvites.code, code.toUpperCase()),
+      eq(familyInvites.role, redeemer.role),
+      or(isNull(familyInvites.email), eq(familyInvites.email, redeemer.email.toLowerCase())),
+      isNull(familyInvites.revokedAt),
+      gt(familyInvites.expiresAt, now),
+      lt(familyInvites.useCount, familyInvites.maxUses)
+    ))
+    .returning();
+
+  return invite || null;
+}
@@ -0,0 +1,123 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { generateId } from '../utils/codes';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+// Delivers e-mail. Swap in an SMTP or provider-API transport with setMailTransport.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Logs that a message would have been sent, without its body since that holds
+// live reset and verification tokens (default outside production). Use the
+// file transport to read the links locally.
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] to ${message.to}: ${message.subject}`);
+  }
+}
+
+// Refuses to send. The production default, so a deployment without a real
+// transport fails loudly instead of pretending to deliver.
+export class UnconfiguredMailTransport implements MailTransport {
+  async send(): Promise<void> {
+    throw new Error('No mail transport configured; call setMailTransport at startup');
+  }
+}
+
+// Writes each message to a JSON file, so local setups and scripts can pick up
+// reset and verification links
+export class FileMailTransport implements MailTransport {
+  constructor(private dir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    const file = path.join(this.dir, `${Date.now()}-${generateId()}.json`);
+    await fs.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+  }
+}
+
+// Keeps messages in memory so tests can assert on what would have been sent
+export class MemoryMailTransport implements MailTransport {
+  messages: MailMessage[] = [];
+
+  async send(message: MailMessage): Promise<void> {
+    this.messages.push(message);
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+}
+
+let transport: MailTransport | null = null;
+
+function createDefaultTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    return new FileMailTransport(process.env.MAIL_DIR || 'mail');
+  }
+  if (process.env.NODE_ENV === 'production') {
+    return new UnconfiguredMailTransport();
+  }
+  return new ConsoleMailTransport();
+}
+
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    transport = createDefaultTransport();
+  }
+  return transport;
+}
+
+export function setMailTransport(next: MailTransport): void {
+  transport = next;
+}
+
+// Send an e-mail. Never throws: callers such as forgot-password must respond
+// the same whether or not delivery worked.
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  try {
+    await getMailTransport().send(message);
+    return true;
+  } catch (error) {
+    console.error(`Mail to ${message.to} failed:`, error);
+    return false;
+  }
+}
+
+// Link for the app or website to open, or null to send the bare token
+function appLink(pathname: string, token: string): string | null {
+  const base = process.env.APP_URL;
+  return base ? `${base.replace(/\/$/, '')}${pathname}?token=${encodeURIComponent(token)}` : null;
+}
+
+export function sendPasswordResetMail(to: string, token: string, ttlMinutes: number) {
+  const link = appLink('/reset-password', token);
+  return sendMail({
+    to,
+    subject: 'Reset your Praesidium password',
+    text: [
+      'Someone asked to reset the password for this account. If it was not you, ignore this e-mail.',
+      link ? `Reset your password: ${link}` : `Reset code: ${token}`,
+      `This expires in ${ttlMinutes} minutes.`,
+    ].join('\n\n'),
+  });
+}
+
+export function sendEmailVerificationMail(to: string, token: string, ttlHours: number) {
+  const link = appLink('/verify-email', token);
+  return sendMail({
+    to,
+    subject: 'Confirm your e-mail address',
+    text: [
+      'Confirm this address for your Praesidium account.',
+      link ? `Confirm: ${link}` : `Verification code: ${token}`,
+      `This expires in ${ttlHours} hours.`,
+    ].join('\n\n'),
+  });
+}
@@ -0,0 +1,50 @@
+import { User } from '../db';
+import { isScheduleActive } from '../utils/schedule';
+import { getUserTimezone } from './timezone';
+
+// Parts of the app a caregiver or guest can be allowed into
+export type MemberFeature = 'location' | 'status' | 'chat' | 'places' | 'sos';
+
+export const MEMBER_FEATURES: MemberFeature[] = ['location', 'status', 'chat', 'places', 'sos'];
+
+export type LimitedRole = 'caregiver' | 'guest';
+
+export const LIMITED_ROLES: LimitedRole[] = ['caregiver', 'guest'];
+
+export function isLimitedRole(role: string): role is LimitedRole {
+  return (LIMITED_ROLES as string[]).includes(role);
+}
+
+// Parents and children have every feature; caregivers and guests only those
+// their invite listed. Users waiting for join approval have none.
+export function hasFeature(
+  user: { role: string; allowedFeatures: string[] | null; pendingApproval: boolean },
+  feature: MemberFeature
+): boolean {
+  if (user.pendingApproval) return false;
+  if (!isLimitedRole(user.role)) return true;
+  return (user.allowedFeatures || []).includes(feature);
+}
+
+// Why a caregiver or guest cannot use the app right now, or null if they can
+export async function getAccessDenial(user: User, now: Date = new Date()): Promise<string | null> {
+  if (!isLimitedRole(user.role)) return null;
+
+  if (user.accessExpiresAt && user.accessExpiresAt <= now) {
+    return 'Access expired';
+  }
+
+  if (user.accessSchedule && !isScheduleActive(user.accessSchedule, await getUserTimezone(user.id), now)) {
+    return 'Access is not available at this time';
+  }
+
+  return null;
+}
+
+// Whether a member should be reached for a feature, e.g. by an SOS alert. The
+// schedule is ignored so emergencies reach caregivers outside their usual hours.
+export function isActiveFor(user: User, feature: MemberFeature, now: Date = new Date()): boolean {
+  if (!isLimitedRole(user.role)) return true;
+  if (user.accessExpiresAt && user.accessExpiresAt <= now) return false;
+  return hasFeature(user, feature);
+}
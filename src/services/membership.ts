@@ -0,0 +1,125 @@
+import { eq, and } from 'drizzle-orm';
+import { db, users, families, membershipRequests, MembershipRequest, User } from '../db';
+import { generateId } from '../utils/codes';
+import { grantAccessToFamilyChildren, grantFamilyParentsAccess } from './guardianship';
+import { notifyMembershipRequest, notifyMembershipDecision } from './notifications';
+
+// Where a joining user ends up: the family, the parent a child pairs with and
+// the invite they came through
+export interface Admission {
+  familyId: string;
+  parentId?: string | null;
+  invitedById?: string | null;
+  inviteId?: string | null;
+}
+
+// Put a user into a family and set up guardianships: a parent gets access to
+// the family's children, a child's other parents get access to the child
+export async function admitToFamily(user: User, admission: Admission): Promise<User> {
+  const updates = {
+    familyId: admission.familyId,
+    parentId: user.role === 'child' ? user.parentId || admission.parentId || null : user.parentId,
+    invitedById: admission.invitedById ?? user.invitedById,
+    inviteId: admission.inviteId ?? user.inviteId,
+    pendingApproval: false,
+    updatedAt: new Date(),
+  };
+  await db.update(users)
+    .set(updates)
+    .where(eq(users.id, user.id));
+
+  const admitted = { ...user, ...updates };
+  if (admitted.role === 'parent') {
+    await grantAccessToFamilyChildren(admitted, admission.familyId);
+  } else if (admitted.role === 'child') {
+    await grantFamilyParentsAccess(admitted);
+  }
+
+  return admitted;
+}
+
+// Admit a user right away, or file a pending request when the family requires
+// approval. Until a parent decides, the user stays outside the family.
+export async function requestOrAdmit(
+  user: User,
+  admission: Admission,
+  type: 'join' | 'pair'
+): Promise<{ user: User; request: MembershipRequest | null }> {
+  const family = await db.query.families.findFirst({
+    where: eq(families.id, admission.familyId),
+  });
+
+  if (!family?.requireApproval) {
+    return { user: await admitToFamily(user, admission), request: null };
+  }
+
+  const request: MembershipRequest = {
+    id: generateId(),
+    familyId: admission.familyId,
+    userId: user.id,
+    type,
+    parentId: admission.parentId ?? null,
+    invitedById: admission.invitedById ?? null,
+    inviteId: admission.inviteId ?? null,
+    status: 'pending',
+    decidedById: null,
+    decidedAt: null,
+    createdAt: new Date(),
+  };
+  await db.insert(membershipRequests).values(request);
+  await db.update(users)
+    .set({ pendingApproval: true, updatedAt: new Date() })
+    .where(eq(users.id, user.id));
+
+  await notifyMembershipRequest(family.id, user, request);
+
+  return { user: { ...user, pendingApproval: true }, request };
+}
+
+export async function getPendingRequest(userId: string): Promise<MembershipRequest | undefined> {
+  return db.query.membershipRequests.findFirst({
+    where: and(eq(membershipRequests.userId, userId), eq(membershipRequests.status, 'pending')),
+  });
+}
+
+// Approve or reject a pending request. Only the first decision counts, so two
+// parents answering at once cannot both apply theirs.
+export async function decideMembershipRequest(
+  requestId: string,
+  familyId: string,
+  decidedById: string,
+  approve: boolean
+): Promise<MembershipRequest | null> {
+  const [request] = await db.update(membershipRequests)
+    .set({ status: approve ? 'approved' : 'rejected', decidedById, decidedAt: new Date() })
+    .where(and(
+      eq(membershipRequests.id, requestId),
+      eq(membershipRequests.familyId, familyId),
+      eq(membershipRequests.status, 'pending')
+    ))
+    .returning();
+
+  if (!request) return null;
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, request.userId),
+  });
+  if (!user) return request;
+
+  if (approve && !user.familyId) {
+    await admitToFamily(user, {
+      familyId: request.familyId,
+      parentId: request.parentId,
+      invitedById: request.invitedById,
+      inviteId: request.inviteId,
+    });
+  } else {
+    await db.update(users)
+      .set({ pendingApproval: false, updatedAt: new Date() })
+      .where(eq(users.id, user.id));
+  }
+
+  await notifyMembershipDecision(user, request);
+
+  return request;
+}
@@ -0,0 +1,617 @@
+import jwt from 'jsonwebtoken';
+import { eq, and, isNotNull } from 'drizzle-orm';
+import { db, users, devices } from '../db';
+import { getGuardianIds, GuardianPermission } from './guardianship';
+import { isActiveFor } from './memberAccess';
+import { markAppRemoved } from './deviceHealth';
+
+// A single push message addressed to one device token
+export interface PushMessage {
+  token: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;
+}
+
+// Transports deliver push messages; swap with setNotificationTransport for local/dev use
+export interface NotificationTransport {
+  send(message: PushMessage): Promise<'sent' | 'invalid_token'>;
+}
+
+// Firebase Cloud Messaging (HTTP v1 API) authenticated with a service account
+export class FcmTransport implements NotificationTransport {
+  private accessToken: string | null = null;
+  private accessTokenExpiresAt = 0;
+
+  constructor(
+    private projectId: string,
+    private clientEmail: string,
+    private privateKey: string
+  ) {}
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt - 60_000) {
+      return this.accessToken;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = jwt.sign(
+      {
+        iss: this.clientEmail,
+        scope: 'https://www.googleapis.com/auth/firebase.messaging',
+        aud: 'https://oauth2.googleapis.com/token',
+        iat: now,
+        exp: now + 3600,
+      },
+      this.privateKey,
+      { algorithm: 'RS256' }
+    );
+
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`FCM auth failed with status ${response.status}`);
+    }
+
+    const result = await response.json() as { access_token: string; expires_in: number };
+    this.accessToken = result.access_token;
+    this.accessTokenExpiresAt = Date.now() + result.expires_in * 1000;
+    return this.accessToken;
+  }
+
+  async send(message: PushMessage): Promise<'sent' | 'invalid_token'> {
+    const accessToken = await this.getAccessToken();
+
+    const response = await fetch(
+      `https://fcm.googleapis.com/v1/projects/${this.projectId}/messages:send`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+        },
+        body: JSON.stringify({
+          message: {
+            token: message.token,
+            notification: { title: message.title, body: message.body },
+            data: message.data,
+            android: { priority: 'high' },
+          },
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => null) as FcmErrorBody | null;
+      if (isInvalidTokenError(response.status, error)) {
+        return 'invalid_token';
+      }
+      throw new Error(`FCM send failed with status ${response.status}: ${error?.error?.message || 'no details'}`);
+    }
+
+    return 'sent';
+  }
+}
+
+interface FcmErrorBody {
+  error?: {
+    message?: string;
+    details?: Array<{ errorCode?: string; fieldViolations?: Array<{ field?: string }> }>;
+  };
+}
+
+// Only UNREGISTERED, or INVALID_ARGUMENT blaming the token itself, means the
+// token is no longer usable. Other 400s are bad payloads, not a removed app.
+function isInvalidTokenError(status: number, body: FcmErrorBody | null): boolean {
+  const details = body?.error?.details || [];
+  if (status === 404 || details.some((detail) => detail.errorCode === 'UNREGISTERED')) {
+    return true;
+  }
+  return status === 400 && details.some((detail) =>
+    (detail.fieldViolations || []).some((violation) => violation.field === 'message.token')
+  );
+}
+
+// Logs messages instead of sending them (default when FCM is not configured)
+export class ConsoleTransport implements NotificationTransport {
+  async send(message: PushMessage): Promise<'sent'> {
+    console.log(`[push] ${message.token}: ${message.title} - ${message.body}`, message.data);
+    return 'sent';
+  }
+}
+
+// Keeps messages in memory so tests can assert on what would have been sent
+export class MemoryTransport implements NotificationTransport {
+  messages: PushMessage[] = [];
+
+  async send(message: PushMessage): Promise<'sent'> {
+    this.messages.push(message);
+    return 'sent';
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+}
+
+let transport: NotificationTransport | null = null;
+
+function createDefaultTransport(): NotificationTransport {
+  const projectId = process.env.FCM_PROJECT_ID;
+  const clientEmail = process.env.FCM_CLIENT_EMAIL;
+  const privateKey = process.env.FCM_PRIVATE_KEY;
+
+  if (projectId && clientEmail && privateKey) {
+    // Env vars cannot hold real newlines on most hosts
+    return new FcmTransport(projectId, clientEmail, privateKey.replace(/\\n/g, '\n'));
+  }
+
+  return new ConsoleTransport();
+}
+
+export function getNotificationTransport(): NotificationTransport {
+  if (!transport) {
+    transport = createDefaultTransport();
+  }
+  return transport;
+}
+
+export function setNotificationTransport(next: NotificationTransport): void {
+  transport = next;
+}
+
+export type NotificationType =
+  | 'geofence_enter'
+  | 'geofence_exit'
+  | 'geofence_dwell'
+  | 'sos'
+  | 'sos_acknowledged'
+  | 'sos_resolved'
+  | 'crash_detected'
+  | 'crash_escalated'
+  | 'driving_event'
+  | 'ping'
+  | 'ping_acknowledged'
+  | 'location_request'
+  | 'location_request_responded'
+  | 'location_reminder'
+  | 'data_export_ready'
+  | 'membership_request'
+  | 'membership_decision'
+  | 'device_alert'
+  | 'child_offline'
+  | 'child_online';
+
+export interface Notification {
+  type: NotificationType;
+  title: string;
+  body: string;
+  data?: Record<string, string | number | null | undefined>;
+}
+
+// Every other member of the user's family
+async function getFamilyMemberIds(userId: string): Promise<string[]> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+
+  if (!user?.familyId) {
+    return getGuardianIds(userId);
+  }
+
+  const members = await db.query.users.findMany({
+    where: eq(users.familyId, user.familyId),
+  });
+
+  // Family notifications are SOS alerts, so caregivers and guests need that feature
+  return members
+    .filter((m) => m.id !== userId && isActiveFor(m, 'sos'))
+    .map((m) => m.id);
+}
+
+// Who hears a member's SOS: the whole family, except that for a child only
+// parents who are guardians with the receiveSos permission are included
+async function getSosRecipientIds(userId: string): Promise<string[]> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+
+  if (user?.role !== 'child' || !user.familyId) {
+    return getFamilyMemberIds(userId);
+  }
+
+  const [members, guardianIds] = await Promise.all([
+    db.query.users.findMany({ where: eq(users.familyId, user.familyId) }),
+    getGuardianIds(userId, 'receiveSos'),
+  ]);
+
+  const recipients = members
+    .filter((m) => m.id !== userId && isActiveFor(m, 'sos') && (m.role !== 'parent' || guardianIds.includes(m.id)))
+    .map((m) => m.id);
+
+  return [...recipients, ...guardianIds];
+}
+
+function toPushData(notification: Notification): Record<string, string> {
+  const data: Record<string, string> = { type: notification.type };
+  for (const [key, value] of Object.entries(notification.data || {})) {
+    if (value !== null && value !== undefined) {
+      data[key] = String(value);
+    }
+  }
+  return data;
+}
+
+// Where a user's pushes go: every device with a token, or the legacy per-user
+// token for apps that do not report devices
+interface PushTarget {
+  token: string;
+  userId: string;
+  deviceId: string | null;
+}
+
+async function getPushTargets(userId: string): Promise<PushTarget[]> {
+  const userDevices = await db.query.devices.findMany({
+    where: and(eq(devices.userId, userId), isNotNull(devices.pushToken)),
+  });
+
+  if (userDevices.length > 0) {
+    return userDevices.map((d) => ({ token: d.pushToken!, userId, deviceId: d.id }));
+  }
+
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+  return user?.fcmToken ? [{ token: user.fcmToken, userId, deviceId: null }] : [];
+}
+
+async function clearPushToken(target: PushTarget): Promise<void> {
+  if (target.deviceId) {
+    const [device] = await db.update(devices)
+      .set({ pushToken: null })
+      .where(eq(devices.id, target.deviceId))
+      .returning();
+    if (device) await markAppRemoved(device);
+  } else {
+    await db.update(users)
+      .set({ fcmToken: null, updatedAt: new Date() })
+      .where(eq(users.id, target.userId));
+  }
+}
+
+// Send a notification to a set of users on all their devices. Returns the
+// number of pushes sent. Never throws: a failed push must not fail the request
+// that produced it.
+export async function notifyUsers(userIds: string[], notification: Notification): Promise<number> {
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) return 0;
+
+  let sent = 0;
+
+  try {
+    const targets = (await Promise.all(uniqueIds.map(getPushTargets))).flat();
+
+    const data = toPushData(notification);
+
+    await Promise.all(
+      targets.map(async (target) => {
+        try {
+          const result = await getNotificationTransport().send({
+            token: target.token,
+            title: notification.title,
+            body: notification.body,
+            data,
+          });
+
+          if (result === 'invalid_token') {
+            await clearPushToken(target);
+          } else {
+            sent++;
+          }
+        } catch (error) {
+          console.error(`Push to user ${target.userId} failed:`, error);
+        }
+      })
+    );
+  } catch (error) {
+    console.error('Notification dispatch error:', error);
+  }
+
+  return sent;
+}
+
+// Notify a child's guardians, only those holding the permission if one is given
+export async function notifyParents(
+  childId: string,
+  notification: Notification,
+  permission?: GuardianPermission
+): Promise<number> {
+  try {
+    return await notifyUsers(await getGuardianIds(childId, permission), notification);
+  } catch (error) {
+    console.error('Notification dispatch error:', error);
+    return 0;
+  }
+}
+
+export async function notifyFamily(userId: string, notification: Notification): Promise<number> {
+  try {
+    return await notifyUsers(await getFamilyMemberIds(userId), notification);
+  } catch (error) {
+    console.error('Notification dispatch error:', error);
+    return 0;
+  }
+}
+
+async function notifySosRecipients(userId: string, notification: Notification): Promise<number> {
+  try {
+    return await notifyUsers(await getSosRecipientIds(userId), notification);
+  } catch (error) {
+    console.error('Notification dispatch error:', error);
+    return 0;
+  }
+}
+
+// ==================== EVENT PRODUCERS ====================
+
+export function notifyGeofenceEvent(
+  child: { id: string; displayName: string },
+  geofence: { id: string; name: string; dwellMinutes?: number | null },
+  eventType: 'enter' | 'exit' | 'dwell'
+) {
+  const bodies = {
+    enter: `${child.displayName} arrived at ${geofence.name}`,
+    exit: `${child.displayName} left ${geofence.name}`,
+    dwell: `${child.displayName} has been at ${geofence.name} for ${geofence.dwellMinutes} minutes`,
+  };
+
+  return notifyParents(child.id, {
+    type: `geofence_${eventType}`,
+    title: geofence.name,
+    body: bodies[eventType],
+    data: { childId: child.id, geofenceId: geofence.id },
+  }, 'viewLocation');
+}
+
+export function notifySos(
+  user: { id: string; displayName: string },
+  location: { latitude?: number | null; longitude?: number | null },
+  sessionId: string
+) {
+  return notifySosRecipients(user.id, {
+    type: 'sos',
+    title: 'SOS',
+    body: `${user.displayName} needs help!`,
+    data: { userId: user.id, sessionId, latitude: location.latitude, longitude: location.longitude },
+  });
+}
+
+export function notifySosAcknowledged(
+  member: { id: string; displayName: string },
+  session: { id: string; userId: string },
+  message: string | null
+) {
+  return notifyUsers([session.userId], {
+    type: 'sos_acknowledged',
+    title: `${member.displayName} saw your SOS`,
+    body: message || 'Help is on the way',
+    data: { sessionId: session.id, userId: member.id },
+  });
+}
+
+export function notifySosResolved(
+  resolver: { id: string; displayName: string },
+  session: { id: string; userId: string }
+) {
+  return notifyFamily(resolver.id, {
+    type: 'sos_resolved',
+    title: 'SOS resolved',
+    body: `${resolver.displayName} marked the SOS as resolved`,
+    data: { sessionId: session.id, userId: session.userId },
+  });
+}
+
+export function notifyCrashDetected(
+  user: { id: string; displayName: string },
+  event: { id: string; latitude: number; longitude: number; address?: string | null }
+) {
+  return notifyParents(user.id, {
+    type: 'crash_detected',
+    title: 'Possible crash detected',
+    body: `A possible crash was detected for ${user.displayName}${event.address ? ` near ${event.address}` : ''}`,
+    data: { userId: user.id, crashEventId: event.id, latitude: event.latitude, longitude: event.longitude, address: event.address },
+  }, 'receiveSos');
+}
+
+export function notifyCrashEscalated(
+  user: { id: string; displayName: string },
+  event: { id: string; latitude: number; longitude: number; address?: string | null }
+) {
+  return notifyParents(user.id, {
+    type: 'crash_escalated',
+    title: 'Emergency: crash confirmed',
+    body: `${user.displayName} did not confirm being okay after a crash. Emergency contacts are being alerted.`,
+    data: { userId: user.id, crashEventId: event.id, latitude: event.latitude, longitude: event.longitude, address: event.address },
+  }, 'receiveSos');
+}
+
+export function notifyDrivingEvent(
+  user: { id: string; displayName: string },
+  event: { id: string; sessionId: string; eventType: string; speed: number | null }
+) {
+  const labels: Record<string, string> = {
+    hard_brake: 'braked hard',
+    rapid_accel: 'accelerated rapidly',
+    speeding: 'is speeding',
+    phone_use: 'is using the phone while driving',
+  };
+
+  return notifyParents(user.id, {
+    type: 'driving_event',
+    title: 'Driving alert',
+    body: `${user.displayName} ${labels[event.eventType] || event.eventType}`,
+    data: { userId: user.id, sessionId: event.sessionId, eventId: event.id, eventType: event.eventType, speed: event.speed },
+  }, 'viewLocation');
+}
+
+export function notifyPing(
+  parent: { id: string; displayName: string },
+  ping: { id: string; childId: string; type: string; message: string | null }
+) {
+  return notifyUsers([ping.childId], {
+    type: 'ping',
+    title: `${parent.displayName} is pinging you`,
+    body: ping.message || 'Please check your phone',
+    data: { pingId: ping.id, pingType: ping.type, parentId: parent.id },
+  });
+}
+
+export function notifyPingAcknowledged(
+  child: { id: string; displayName: string },
+  ping: { id: string; parentId: string }
+) {
+  return notifyUsers([ping.parentId], {
+    type: 'ping_acknowledged',
+    title: 'Ping acknowledged',
+    body: `${child.displayName} acknowledged your ping`,
+    data: { pingId: ping.id, childId: child.id },
+  });
+}
+
+export function notifyLocationRequest(
+  parent: { id: string; displayName: string },
+  request: { id: string; childId: string; message: string | null }
+) {
+  return notifyUsers([request.childId], {
+    type: 'location_request',
+    title: `${parent.displayName} wants to know where you are`,
+    body: request.message || 'Tap to share your location',
+    data: { requestId: request.id, parentId: parent.id },
+  });
+}
+
+export function notifyLocationRequestResponded(
+  child: { id: string; displayName: string },
+  request: { id: string; parentId: string }
+) {
+  return notifyUsers([request.parentId], {
+    type: 'location_request_responded',
+    title: 'Location shared',
+    body: `${child.displayName} shared their location`,
+    data: { requestId: request.id, childId: child.id },
+  });
+}
+
+export function notifyLocationReminder(
+  reminder: { id: string; childId: string; geofenceId: string | null; message: string },
+  geofenceName: string
+) {
+  return notifyUsers([reminder.childId], {
+    type: 'location_reminder',
+    title: geofenceName,
+    body: reminder.message,
+    data: { reminderId: reminder.id, geofenceId: reminder.geofenceId },
+  });
+}
+
+export function notifyDataExportReady(exportJob: { id: string; requestedById: string }) {
+  return notifyUsers([exportJob.requestedById], {
+    type: 'data_export_ready',
+    title: 'Your data export is ready',
+    body: 'Download it from the app before the link expires',
+    data: { exportId: exportJob.id },
+  });
+}
+
+export async function notifyMembershipRequest(
+  familyId: string,
+  user: { id: string; displayName: string; role: string },
+  request: { id: string; type: 'join' | 'pair' }
+) {
+  const parents = await db.query.users.findMany({
+    where: and(eq(users.familyId, familyId), eq(users.role, 'parent')),
+  });
+
+  return notifyUsers(parents.map((p) => p.id), {
+    type: 'membership_request',
+    title: request.type === 'pair' ? 'New device waiting for approval' : 'New member waiting for approval',
+    body: `${user.displayName} wants to join your family as ${user.role}`,
+    data: { requestId: request.id, userId: user.id, requestType: request.type },
+  });
+}
+
+export function notifyMembershipDecision(
+  user: { id: string },
+  request: { id: string; status: 'pending' | 'approved' | 'rejected' }
+) {
+  return notifyUsers([user.id], {
+    type: 'membership_decision',
+    title: request.status === 'approved' ? 'Welcome to the family' : 'Request declined',
+    body: request.status === 'approved'
+      ? 'A parent approved your request'
+      : 'A parent declined your request to join',
+    data: { requestId: request.id, status: request.status },
+  });
+}
+
+export function notifyDeviceAlert(
+  child: { id: string; displayName: string },
+  device: { id: string; name: string | null; model: string | null; batteryLevel: number | null },
+  alert: { id: string; type: 'location_off' | 'no_check_in' | 'battery_low' | 'app_removed' },
+  checkInMinutes: number
+) {
+  const deviceName = device.name || device.model || 'device';
+  const messages: Record<typeof alert.type, { title: string; body: string }> = {
+    location_off: {
+      title: 'Location is off',
+      body: `Location is off on ${child.displayName}'s ${deviceName}`,
+    },
+    no_check_in: {
+      title: 'Device not checking in',
+      body: `${child.displayName}'s ${deviceName} has not checked in for ${checkInMinutes} minutes`,
+    },
+    battery_low: {
+      title: 'Battery low',
+      body: `${child.displayName}'s ${deviceName} is at ${device.batteryLevel}% battery`,
+    },
+    app_removed: {
+      title: 'App removed',
+      body: `The app was removed from ${child.displayName}'s ${deviceName}`,
+    },
+  };
+
+  return notifyParents(child.id, {
+    type: 'device_alert',
+    ...messages[alert.type],
+    data: { userId: child.id, deviceId: device.id, alertId: alert.id, alertType: alert.type },
+  }, 'viewLocation');
+}
+
+export function notifyChildOffline(
+  child: { id: string; displayName: string },
+  lastLocationAt: Date,
+  thresholdMinutes: number
+) {
+  return notifyParents(child.id, {
+    type: 'child_offline',
+    title: `${child.displayName} is offline`,
+    body: `No location from ${child.displayName} for over ${thresholdMinutes} minutes`,
+    data: { userId: child.id, lastLocationAt: lastLocationAt.toISOString() },
+  }, 'viewLocation');
+}
+
+export function notifyChildOnline(child: { id: string; displayName: string }) {
+  return notifyParents(child.id, {
+    type: 'child_online',
+    title: `${child.displayName} is back online`,
+    body: `${child.displayName} is sharing their location again`,
+    data: { userId: child.id },
+  }, 'viewLocation');
+}
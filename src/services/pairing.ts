@@ -0,0 +1,81 @@
+import jwt from 'jsonwebtoken';
+import { eq, and, isNull, gt } from 'drizzle-orm';
+import { db, pairingTokens, PairingToken } from '../db';
+import { generateId } from '../utils/codes';
+import { getJwtSecret } from './sessions';
+
+const PAIRING_TOKEN_TTL_MINUTES = parseInt(process.env.PAIRING_TOKEN_TTL_MINUTES || '10');
+
+// Keeps pairing tokens and access tokens from being accepted in place of each other
+const PAIRING_AUDIENCE = 'pairing';
+
+// Issue a token for the parent's app to show as a QR code. Without a childId
+// it registers a new child; with one it adds a device to that child.
+export async function createPairingToken(
+  parentId: string,
+  childId: string | null = null
+): Promise<{ token: string; expiresAt: Date }> {
+  const id = generateId();
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + PAIRING_TOKEN_TTL_MINUTES * 60 * 1000);
+
+  await db.insert(pairingTokens).values({
+    id,
+    parentId,
+    childId,
+    expiresAt,
+    createdAt: now,
+  });
+
+  const token = jwt.sign({ childId }, getJwtSecret(), {
+    audience: PAIRING_AUDIENCE,
+    jwtid: id,
+    expiresIn: PAIRING_TOKEN_TTL_MINUTES * 60,
+  });
+
+  return { token, expiresAt };
+}
+
+// Check the signature and return the token's record, or null if it is forged,
+// expired or already used. Nothing is consumed yet.
+export async function verifyPairingToken(token: string): Promise<PairingToken | null> {
+  let id: string | undefined;
+  try {
+    id = (jwt.verify(token, getJwtSecret(), { audience: PAIRING_AUDIENCE }) as jwt.JwtPayload).jti;
+  } catch {
+    return null;
+  }
+  if (!id) return null;
+
+  const record = await db.query.pairingTokens.findFirst({
+    where: eq(pairingTokens.id, id),
+  });
+
+  if (!record || record.redeemedAt || record.expiresAt <= new Date()) {
+    return null;
+  }
+  return record;
+}
+
+// Use up a token. Only the first redemption succeeds, so a leaked QR code is
+// worthless once the intended device has scanned it.
+export async function claimPairingToken(id: string): Promise<PairingToken | null> {
+  const now = new Date();
+  const [record] = await db.update(pairingTokens)
+    .set({ redeemedAt: now })
+    .where(and(
+      eq(pairingTokens.id, id),
+      isNull(pairingTokens.redeemedAt),
+      gt(pairingTokens.expiresAt, now)
+    ))
+    .returning();
+
+  return record || null;
+}
+
+// Record which child and device a claimed token ended up pairing
+export async function completePairing(id: string, childId: string, deviceId: string): Promise<void> {
+  await db.update(pairingTokens)
+    .set({ redeemedById: childId, deviceId })
+    .where(eq(pairingTokens.id, id));
+}
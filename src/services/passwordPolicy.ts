@@ -0,0 +1,41 @@
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  requireLetterAndDigit: boolean;
+}
+
+// bcrypt ignores everything past 72 bytes
+const BCRYPT_MAX_LENGTH = 72;
+
+export function getPasswordPolicy(): PasswordPolicy {
+  return {
+    minLength: Math.min(parseInt(process.env.PASSWORD_MIN_LENGTH || '8'), BCRYPT_MAX_LENGTH),
+    maxLength: BCRYPT_MAX_LENGTH,
+    requireLetterAndDigit: process.env.PASSWORD_REQUIRE_LETTER_AND_DIGIT !== 'false',
+  };
+}
+
+// Why a new password is not acceptable, or null if it is. The account's e-mail
+// address is passed so the password cannot simply repeat it.
+export function checkPassword(password: string, email?: string | null): string | null {
+  const policy = getPasswordPolicy();
+
+  if (password.length < policy.minLength) {
+    return `Password must be at least ${policy.minLength} characters`;
+  }
+
+  if (Buffer.byteLength(password) > policy.maxLength) {
+    return `Password must be at most ${policy.maxLength} bytes`;
+  }
+
+  if (policy.requireLetterAndDigit && !(/\p{L}/u.test(password) && /\d/.test(password))) {
+    return 'Password must contain a letter and a digit';
+  }
+
+  const localPart = email?.split('@')[0].toLowerCase();
+  if (localPart && localPart.length >= 3 && password.toLowerCase().includes(localPart)) {
+    return 'Password must not contain your e-mail address';
+  }
+
+  return null;
+}
@@ -0,0 +1,100 @@
+import { eq, and, or, isNull, isNotNull, inArray, max, sql } from 'drizzle-orm';
+import { db, users, locations, User } from '../db';
+import { notifyChildOffline, notifyChildOnline } from './notifications';
+import { publishFamilyEvent } from './events';
+
+// How old a child's last location may get before they count as offline,
+// unless the child has their own threshold
+export const DEFAULT_OFFLINE_AFTER_MINUTES = parseInt(process.env.OFFLINE_AFTER_MINUTES || '30');
+
+// SQLite limits bound parameters per statement
+const ID_CHUNK_SIZE = 500;
+
+export function getOfflineThreshold(child: { offlineAfterMinutes: number | null }): number {
+  return child.offlineAfterMinutes ?? DEFAULT_OFFLINE_AFTER_MINUTES;
+}
+
+function isStale(child: User, lastLocationAt: Date, now: Date): boolean {
+  return lastLocationAt.getTime() < now.getTime() - getOfflineThreshold(child) * 60 * 1000;
+}
+
+// The flip is a conditional update, so overlapping watchdog runs and location
+// posts announce each transition only once
+async function markOffline(child: User, lastLocationAt: Date, now: Date): Promise<boolean> {
+  const [updated] = await db.update(users)
+    .set({ offlineSince: now })
+    .where(and(eq(users.id, child.id), isNull(users.offlineSince)))
+    .returning({ id: users.id });
+  if (!updated) return false;
+
+  await notifyChildOffline(child, lastLocationAt, getOfflineThreshold(child));
+  publishFamilyEvent(child.familyId, 'presence', { userId: child.id, offline: true, offlineSince: now });
+  return true;
+}
+
+async function markOnline(child: User): Promise<boolean> {
+  const [updated] = await db.update(users)
+    .set({ offlineSince: null })
+    .where(and(eq(users.id, child.id), isNotNull(users.offlineSince)))
+    .returning({ id: users.id });
+  if (!updated) return false;
+
+  await notifyChildOnline(child);
+  publishFamilyEvent(child.familyId, 'presence', { userId: child.id, offline: false, offlineSince: null });
+  return true;
+}
+
+// Clear the offline flag as soon as an offline child sends a fresh fix,
+// instead of waiting for the next watchdog run
+export async function updatePresenceOnLocation(userId: string, locationAt: Date): Promise<void> {
+  const child = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+
+  if (child?.role === 'child' && child.offlineSince && !isStale(child, locationAt, new Date())) {
+    await markOnline(child);
+  }
+}
+
+// Scheduled: flag children whose last location is older than their threshold
+// and unflag those who reported again. Only children not seen within their
+// threshold, or already flagged, are looked at.
+export async function runOfflineWatchdog(): Promise<{ checked: number; offline: number; online: number }> {
+  const now = new Date();
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const children = await db.query.users.findMany({
+    where: and(
+      eq(users.role, 'child'),
+      or(
+        isNotNull(users.offlineSince),
+        sql`${users.lastSeen} < ${nowSeconds} - coalesce(${users.offlineAfterMinutes}, ${DEFAULT_OFFLINE_AFTER_MINUTES}) * 60`
+      )
+    ),
+  });
+  if (children.length === 0) return { checked: 0, offline: 0, online: 0 };
+
+  const lastLocationAt = new Map<string, Date | null>();
+  for (let i = 0; i < children.length; i += ID_CHUNK_SIZE) {
+    const latest = await db.select({ userId: locations.userId, timestamp: max(locations.timestamp) })
+      .from(locations)
+      .where(inArray(locations.userId, children.slice(i, i + ID_CHUNK_SIZE).map((c) => c.id)))
+      .groupBy(locations.userId);
+    for (const row of latest) lastLocationAt.set(row.userId, row.timestamp);
+  }
+
+  let offline = 0;
+  let online = 0;
+  for (const child of children) {
+    // Children who never shared a location have nothing to go stale
+    const last = lastLocationAt.get(child.id);
+    if (!last) continue;
+
+    if (isStale(child, last, now)) {
+      if (!child.offlineSince && await markOffline(child, last, now)) offline++;
+    } else if (child.offlineSince && await markOnline(child)) {
+      online++;
+    }
+  }
+
+  return { checked: children.length, offline, online };
+}
@@ -0,0 +1,188 @@
+import { eq, and, lt, gte, asc, inArray, count } from 'drizzle-orm';
+import { db, users, families, locations, Family } from '../db';
+import { planCompaction } from '../utils/trackCompaction';
+
+// Upper bound of raw points compacted per user per run; later runs continue
+const COMPACTION_BATCH_SIZE = 5000;
+
+// SQLite limits bound parameters per statement
+const ID_CHUNK_SIZE = 500;
+
+export interface RetentionPolicy {
+  rawRetentionDays: number;
+  trackRetentionDays: number;
+}
+
+export interface RetentionReport {
+  userId: string;
+  purged: number; // older than the track retention, deleted outright
+  compactedDeleted: number; // raw points removed by compaction
+  staysCreated: number;
+  pointsKept: number;
+}
+
+export interface RetentionPreview {
+  userId: string;
+  purged: number; // older than the track retention, would be deleted outright
+  compactable: number; // raw points older than the raw retention, would be compacted
+}
+
+function daysAgo(days: number, now: Date): Date {
+  return new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += ID_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + ID_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+export function getRetentionPolicy(family: Family): RetentionPolicy {
+  return {
+    rawRetentionDays: family.rawRetentionDays,
+    trackRetentionDays: family.trackRetentionDays,
+  };
+}
+
+// What a retention policy would do to one user's locations. Counted with
+// aggregates so the whole history is covered, not just one compaction batch;
+// how many compactable points end up deleted depends on the track's shape.
+export async function previewRetention(
+  userId: string,
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): Promise<RetentionPreview> {
+  const trackCutoff = daysAgo(policy.trackRetentionDays, now);
+  const rawCutoff = daysAgo(policy.rawRetentionDays, now);
+
+  const [[{ value: purged }], [{ value: compactable }]] = await Promise.all([
+    db.select({ value: count() })
+      .from(locations)
+      .where(and(eq(locations.userId, userId), lt(locations.timestamp, trackCutoff))),
+    db.select({ value: count() })
+      .from(locations)
+      .where(and(
+        eq(locations.userId, userId),
+        eq(locations.compacted, false),
+        gte(locations.timestamp, trackCutoff),
+        lt(locations.timestamp, rawCutoff)
+      )),
+  ]);
+
+  return { userId, purged, compactable };
+}
+
+// Apply a retention policy to one user's locations
+export async function applyRetention(
+  userId: string,
+  policy: RetentionPolicy,
+  now: Date = new Date()
+): Promise<RetentionReport> {
+  const trackCutoff = daysAgo(policy.trackRetentionDays, now);
+  const rawCutoff = daysAgo(policy.rawRetentionDays, now);
+
+  const [{ value: purged }] = await db
+    .select({ value: count() })
+    .from(locations)
+    .where(and(eq(locations.userId, userId), lt(locations.timestamp, trackCutoff)));
+
+  const raw = await db.query.locations.findMany({
+    where: and(
+      eq(locations.userId, userId),
+      eq(locations.compacted, false),
+      lt(locations.timestamp, rawCutoff)
+    ),
+    orderBy: asc(locations.timestamp),
+    limit: COMPACTION_BATCH_SIZE,
+  });
+
+  // Points past the track cutoff are purged, not compacted
+  const compactable = raw.filter((p) => p.timestamp >= trackCutoff);
+  const plan = planCompaction(compactable);
+
+  const report: RetentionReport = {
+    userId,
+    purged,
+    compactedDeleted: plan.deleteIds.length,
+    staysCreated: plan.stays.length,
+    pointsKept: plan.keepIds.length + plan.stays.length,
+  };
+
+  await db.transaction(async (tx) => {
+    await tx.delete(locations).where(and(eq(locations.userId, userId), lt(locations.timestamp, trackCutoff)));
+
+    for (const stay of plan.stays) {
+      await tx.update(locations)
+        .set({
+          latitude: stay.latitude,
+          longitude: stay.longitude,
+          dwellTime: Math.round((stay.end.getTime() - stay.start.getTime()) / 1000),
+          compacted: true,
+        })
+        .where(eq(locations.id, stay.keepId));
+    }
+
+    for (const ids of chunk(plan.keepIds)) {
+      await tx.update(locations).set({ compacted: true }).where(inArray(locations.id, ids));
+    }
+
+    for (const ids of chunk(plan.deleteIds)) {
+      await tx.delete(locations).where(inArray(locations.id, ids));
+    }
+  });
+
+  return report;
+}
+
+// Apply a family's policy to each of its members
+export async function applyFamilyRetention(familyId: string): Promise<RetentionReport[]> {
+  const family = await db.query.families.findFirst({
+    where: eq(families.id, familyId),
+  });
+  if (!family) return [];
+
+  const policy = getRetentionPolicy(family);
+  const members = await db.query.users.findMany({
+    where: eq(users.familyId, familyId),
+  });
+
+  const reports: RetentionReport[] = [];
+  for (const member of members) {
+    reports.push(await applyRetention(member.id, policy));
+  }
+  return reports;
+}
+
+// Preview a proposed policy for each member of a family
+export async function previewFamilyRetention(familyId: string, policy: RetentionPolicy): Promise<RetentionPreview[]> {
+  const members = await db.query.users.findMany({
+    where: eq(users.familyId, familyId),
+  });
+
+  const previews: RetentionPreview[] = [];
+  for (const member of members) {
+    previews.push(await previewRetention(member.id, policy));
+  }
+  return previews;
+}
+
+// Scheduled job: compact and purge every family's location history
+export async function runRetentionJob(): Promise<{ families: number; purged: number; compactedDeleted: number }> {
+  const allFamilies = await db.query.families.findMany();
+
+  let purged = 0;
+  let compactedDeleted = 0;
+  for (const family of allFamilies) {
+    try {
+      const reports = await applyFamilyRetention(family.id);
+      purged += reports.reduce((sum, r) => sum + r.purged, 0);
+      compactedDeleted += reports.reduce((sum, r) => sum + r.compactedDeleted, 0);
+    } catch (error) {
+      console.error(`Retention for family ${family.id} failed:`, error);
+    }
+  }
+
+  return { families: allFamilies.length, purged, compactedDeleted };
+}
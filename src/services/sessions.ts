@@ -0,0 +1,200 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { eq, and, ne, isNull, isNotNull, gt, desc, notInArray } from 'drizzle-orm';
+import { db, sessions, devices, users, Session, UserRole } from '../db';
+import { AppError } from '../middleware/errorHandler';
+import { generateId } from '../utils/codes';
+
+const ACCESS_TOKEN_TTL_MINUTES = parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || '15');
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+export function getJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('JWT_SECRET environment variable is not set');
+    }
+    return 'default-secret';
+  }
+  return secret;
+}
+
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Refresh tokens are "<sessionId>.<secret>" so the session can be found without a hash scan
+function createRefreshToken(sessionId: string): string {
+  return `${sessionId}.${crypto.randomBytes(32).toString('base64url')}`;
+}
+
+export function signAccessToken(
+  user: { id: string; email: string; role: UserRole },
+  sessionId: string
+): string {
+  return jwt.sign(
+    { userId: user.id, email: user.email, role: user.role, sessionId },
+    getJwtSecret(),
+    { expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60 }
+  );
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // access token lifetime in seconds
+  sessionId: string;
+}
+
+export interface SessionContext {
+  deviceName?: string | null;
+  deviceId?: string | null; // devices.id
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+// Open a new session for a freshly authenticated device
+export async function createSession(
+  user: { id: string; email: string; role: UserRole },
+  context: SessionContext = {}
+): Promise<SessionTokens> {
+  const sessionId = generateId();
+  const refreshToken = createRefreshToken(sessionId);
+  const now = new Date();
+
+  await db.insert(sessions).values({
+    id: sessionId,
+    userId: user.id,
+    refreshTokenHash: hashToken(refreshToken),
+    deviceName: context.deviceName || null,
+    deviceId: context.deviceId || null,
+    userAgent: context.userAgent || null,
+    ipAddress: context.ipAddress || null,
+    createdAt: now,
+    lastUsedAt: now,
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000),
+  });
+
+  return {
+    token: signAccessToken(user, sessionId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60,
+    sessionId,
+  };
+}
+
+// Exchange a refresh token for a new token pair. The old refresh token stops
+// working; presenting it again revokes the whole session (likely theft).
+export async function rotateRefreshToken(
+  refreshToken: string,
+  loadUser: (userId: string) => Promise<{ id: string; email: string; role: UserRole } | undefined>
+): Promise<SessionTokens> {
+  const sessionId = refreshToken.split('.')[0];
+
+  const session = await db.query.sessions.findFirst({
+    where: eq(sessions.id, sessionId),
+  });
+
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  if (session.refreshTokenHash !== hashToken(refreshToken)) {
+    await revokeSession(session.id);
+    throw new AppError('Invalid refresh token', 401);
+  }
+
+  const user = await loadUser(session.userId);
+  if (!user) {
+    throw new AppError('User not found', 401);
+  }
+
+  const nextRefreshToken = createRefreshToken(session.id);
+  await db.update(sessions)
+    .set({ refreshTokenHash: hashToken(nextRefreshToken), lastUsedAt: new Date() })
+    .where(eq(sessions.id, session.id));
+
+  return {
+    token: signAccessToken(user, session.id),
+    refreshToken: nextRefreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_MINUTES * 60,
+    sessionId: session.id,
+  };
+}
+
+// Returns the session if it can still be used for authentication
+export async function getActiveSession(sessionId: string): Promise<Session | null> {
+  const session = await db.query.sessions.findFirst({
+    where: eq(sessions.id, sessionId),
+  });
+
+  if (!session || session.revokedAt || session.expiresAt < new Date()) {
+    return null;
+  }
+  return session;
+}
+
+export async function listActiveSessions(userId: string): Promise<Session[]> {
+  return db.query.sessions.findMany({
+    where: and(
+      eq(sessions.userId, userId),
+      isNull(sessions.revokedAt),
+      gt(sessions.expiresAt, new Date())
+    ),
+    orderBy: [desc(sessions.lastUsedAt)],
+  });
+}
+
+// Stop pushing to devices that are no longer signed in. A device keeps its
+// token while another session on it is active; the legacy per-user token goes
+// once no session is left.
+async function clearSignedOutPushTokens(userId: string): Promise<void> {
+  const active = await listActiveSessions(userId);
+  const activeDeviceIds = active.map((s) => s.deviceId).filter((id): id is string => !!id);
+
+  await db.update(devices)
+    .set({ pushToken: null })
+    .where(and(
+      eq(devices.userId, userId),
+      isNotNull(devices.pushToken),
+      activeDeviceIds.length > 0 ? notInArray(devices.id, activeDeviceIds) : undefined
+    ));
+
+  if (active.length === 0) {
+    await db.update(users)
+      .set({ fcmToken: null, updatedAt: new Date() })
+      .where(and(eq(users.id, userId), isNotNull(users.fcmToken)));
+  }
+}
+
+export async function revokeSession(sessionId: string): Promise<void> {
+  const [revoked] = await db.update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.id, sessionId), isNull(sessions.revokedAt)))
+    .returning({ userId: sessions.userId });
+
+  if (revoked) await clearSignedOutPushTokens(revoked.userId);
+}
+
+export async function revokeAllSessions(userId: string): Promise<void> {
+  await db.update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+  await clearSignedOutPushTokens(userId);
+}
+
+// Sign out a removed device
+export async function revokeDeviceSessions(deviceId: string): Promise<void> {
+  await db.update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.deviceId, deviceId), isNull(sessions.revokedAt)));
+}
+
+// Sign out every device except the one making the request, e.g. after a
+// password change
+export async function revokeOtherSessions(userId: string, keepSessionId: string): Promise<void> {
+  await db.update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.userId, userId), ne(sessions.id, keepSessionId), isNull(sessions.revokedAt)));
+  await clearSignedOutPushTokens(userId);
+}
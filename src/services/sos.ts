@@ -0,0 +1,211 @@
+import { eq, and, gte, lte, asc } from 'drizzle-orm';
+import {
+  db,
+  users,
+  locations,
+  statusUpdates,
+  chatMessages,
+  pingRequests,
+  sosSessions,
+  sosAcknowledgements,
+  SosSession,
+} from '../db';
+import { generateId } from '../utils/codes';
+import { notifySos, notifySosAcknowledged, notifySosResolved } from './notifications';
+import { publishFamilyEvent } from './events';
+
+// Location upload rate the child app switches to while an SOS is open
+export const SOS_LOCATION_INTERVAL_SECONDS = parseInt(process.env.SOS_LOCATION_INTERVAL_SECONDS || '5');
+
+export async function getActiveSosSession(userId: string): Promise<SosSession | undefined> {
+  return db.query.sosSessions.findFirst({
+    where: and(eq(sosSessions.userId, userId), eq(sosSessions.status, 'active')),
+  });
+}
+
+// Open an SOS session, or return the one already open for this user. The
+// check and insert share a write transaction, so a double tap or a retry
+// cannot open a second session and alert everyone twice.
+export async function startSos(
+  user: { id: string; displayName: string; familyId: string | null },
+  location: { latitude?: number | null; longitude?: number | null }
+): Promise<{ session: SosSession; created: boolean }> {
+  const session: SosSession = {
+    id: generateId(),
+    userId: user.id,
+    familyId: user.familyId,
+    status: 'active' as const,
+    latitude: location.latitude ?? null,
+    longitude: location.longitude ?? null,
+    locationIntervalSeconds: SOS_LOCATION_INTERVAL_SECONDS,
+    startedAt: new Date(),
+    resolvedAt: null,
+    resolvedById: null,
+    resolutionNote: null,
+  };
+
+  const existing = await db.transaction(async (tx) => {
+    const active = await tx.query.sosSessions.findFirst({
+      where: and(eq(sosSessions.userId, user.id), eq(sosSessions.status, 'active')),
+    });
+    if (!active) await tx.insert(sosSessions).values(session);
+    return active;
+  });
+  if (existing) {
+    return { session: existing, created: false };
+  }
+
+  await notifySos(user, location, session.id);
+  publishFamilyEvent(user.familyId, 'sos', { action: 'started', session });
+
+  return { session, created: true };
+}
+
+export async function acknowledgeSos(
+  session: SosSession,
+  user: { id: string; displayName: string },
+  message: string | null
+) {
+  const acknowledgement = {
+    id: generateId(),
+    sessionId: session.id,
+    userId: user.id,
+    message,
+    createdAt: new Date(),
+  };
+  await db.insert(sosAcknowledgements).values(acknowledgement);
+
+  await notifySosAcknowledged(user, session, message);
+  publishFamilyEvent(session.familyId, 'sos', { action: 'acknowledged', sessionId: session.id, acknowledgement });
+
+  return acknowledgement;
+}
+
+export async function resolveSos(
+  session: SosSession,
+  user: { id: string; displayName: string },
+  note: string | null
+): Promise<SosSession> {
+  const resolved = {
+    ...session,
+    status: 'resolved' as const,
+    resolvedAt: new Date(),
+    resolvedById: user.id,
+    resolutionNote: note,
+  };
+
+  await db.update(sosSessions)
+    .set({
+      status: resolved.status,
+      resolvedAt: resolved.resolvedAt,
+      resolvedById: resolved.resolvedById,
+      resolutionNote: resolved.resolutionNote,
+    })
+    .where(eq(sosSessions.id, session.id));
+
+  await notifySosResolved(user, resolved);
+  publishFamilyEvent(session.familyId, 'sos', { action: 'resolved', session: resolved });
+
+  return resolved;
+}
+
+export interface SosTimelineEntry {
+  type: 'location' | 'status' | 'chat_message' | 'ping' | 'ping_acknowledged' | 'acknowledgement' | 'resolved';
+  timestamp: Date;
+  data: Record<string, any>;
+}
+
+// Everything that happened between the start of the session and its
+// resolution. Without includeLocation the location track and the statuses'
+// coordinates are left out.
+export async function buildSosTimeline(session: SosSession, includeLocation = true): Promise<SosTimelineEntry[]> {
+  const from = session.startedAt;
+  const to = session.resolvedAt || new Date();
+
+  const [points, statuses, messages, pings, acknowledgements] = await Promise.all([
+    includeLocation
+      ? db.query.locations.findMany({
+        where: and(eq(locations.userId, session.userId), gte(locations.timestamp, from), lte(locations.timestamp, to)),
+        orderBy: asc(locations.timestamp),
+      })
+      : Promise.resolve([]),
+    db.query.statusUpdates.findMany({
+      where: and(eq(statusUpdates.userId, session.userId), gte(statusUpdates.timestamp, from), lte(statusUpdates.timestamp, to)),
+      orderBy: asc(statusUpdates.timestamp),
+    }),
+    session.familyId
+      ? db.query.chatMessages.findMany({
+        where: and(eq(chatMessages.familyId, session.familyId), gte(chatMessages.createdAt, from), lte(chatMessages.createdAt, to)),
+        orderBy: asc(chatMessages.createdAt),
+      })
+      : Promise.resolve([]),
+    db.query.pingRequests.findMany({
+      where: and(eq(pingRequests.childId, session.userId), gte(pingRequests.createdAt, from), lte(pingRequests.createdAt, to)),
+      orderBy: asc(pingRequests.createdAt),
+    }),
+    db.query.sosAcknowledgements.findMany({
+      where: eq(sosAcknowledgements.sessionId, session.id),
+      orderBy: asc(sosAcknowledgements.createdAt),
+    }),
+  ]);
+
+  // Resolve display names once for everyone who appears in the timeline
+  const userIds = new Set<string>([
+    ...messages.map((m) => m.senderId),
+    ...pings.map((p) => p.parentId),
+    ...acknowledgements.map((a) => a.userId),
+    ...(session.resolvedById ? [session.resolvedById] : []),
+  ]);
+  const names = new Map<string, string>();
+  await Promise.all([...userIds].map(async (id) => {
+    const member = await db.query.users.findFirst({ where: eq(users.id, id) });
+    names.set(id, member?.displayName || 'Unknown');
+  }));
+
+  const timeline: SosTimelineEntry[] = [
+    ...points.map((p) => ({
+      type: 'location' as const,
+      timestamp: p.timestamp,
+      data: { latitude: p.latitude, longitude: p.longitude, accuracy: p.accuracy, speed: p.speed, batteryLevel: p.batteryLevel },
+    })),
+    ...statuses.map((s) => ({
+      type: 'status' as const,
+      timestamp: s.timestamp,
+      data: includeLocation ? { status: s.status, latitude: s.latitude, longitude: s.longitude } : { status: s.status },
+    })),
+    ...messages.map((m) => ({
+      type: 'chat_message' as const,
+      timestamp: m.createdAt,
+      data: { id: m.id, senderId: m.senderId, senderName: names.get(m.senderId), messageType: m.messageType, content: m.content },
+    })),
+    ...pings.map((p) => ({
+      type: 'ping' as const,
+      timestamp: p.createdAt,
+      data: { id: p.id, parentId: p.parentId, parentName: names.get(p.parentId), type: p.type, status: p.status },
+    })),
+    ...pings.filter((p) => p.acknowledgedAt).map((p) => ({
+      type: 'ping_acknowledged' as const,
+      timestamp: p.acknowledgedAt!,
+      data: { id: p.id },
+    })),
+    ...acknowledgements.map((a) => ({
+      type: 'acknowledgement' as const,
+      timestamp: a.createdAt,
+      data: { userId: a.userId, userName: names.get(a.userId), message: a.message },
+    })),
+  ];
+
+  if (session.resolvedAt) {
+    timeline.push({
+      type: 'resolved',
+      timestamp: session.resolvedAt,
+      data: {
+        resolvedById: session.resolvedById,
+        resolvedByName: session.resolvedById ? names.get(session.resolvedById) : null,
+        note: session.resolutionNote,
+      },
+    });
+  }
+
+  return timeline.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
@@ -0,0 +1,100 @@
+import { eq, and, gte, lt, lte, asc, or, isNull } from 'drizzle-orm';
+import { db, locations, favoritePlaces, geofences, drivingSessions } from '../db';
+import { calculateDistance, isInsideGeofence, isInsideGeofenceShape } from '../utils/geofence';
+import { segmentTrack, TrackSegment } from '../utils/trackSegmentation';
+import { getOfflineThreshold } from './presence';
+
+export interface TimelinePlace {
+  type: 'favorite_place' | 'geofence';
+  id: string;
+  name: string;
+  icon: string | null;
+}
+
+export type TimelineEntry =
+  | (Extract<TrackSegment, { type: 'stay' }> & { place: TimelinePlace | null; ongoing: boolean })
+  | (Extract<TrackSegment, { type: 'trip' }> & { drivingSessionId: string | null });
+
+// Build a child's stays and trips between two instants. Stays are labelled
+// with the closest favorite place or geofence that contains them.
+export async function buildTimeline(
+  child: { id: string; familyId: string | null; offlineAfterMinutes: number | null },
+  from: Date,
+  to: Date
+): Promise<TimelineEntry[]> {
+  const [points, places, zones, drives] = await Promise.all([
+    db.query.locations.findMany({
+      where: and(eq(locations.userId, child.id), gte(locations.timestamp, from), lt(locations.timestamp, to)),
+      orderBy: asc(locations.timestamp),
+    }),
+    child.familyId
+      ? db.query.favoritePlaces.findMany({ where: eq(favoritePlaces.familyId, child.familyId) })
+      : Promise.resolve([]),
+    child.familyId
+      ? db.query.geofences.findMany({
+        where: and(
+          eq(geofences.familyId, child.familyId),
+          eq(geofences.isActive, true),
+          or(isNull(geofences.childId), eq(geofences.childId, child.id))
+        ),
+      })
+      : Promise.resolve([]),
+    db.query.drivingSessions.findMany({
+      where: and(
+        eq(drivingSessions.userId, child.id),
+        lte(drivingSessions.startTime, to),
+        or(isNull(drivingSessions.endTime), gte(drivingSessions.endTime, from))
+      ),
+    }),
+  ]);
+
+  const segments = segmentTrack(points);
+  const now = Date.now();
+  const isCurrent = to.getTime() > now;
+  const staleBefore = now - getOfflineThreshold(child) * 60 * 1000;
+
+  return segments.map((segment, index) => {
+    if (segment.type === 'trip') {
+      // A recorded driving session overlapping the trip settles the mode
+      const drive = drives.find((d) =>
+        d.startTime <= segment.end && (d.endTime || to) >= segment.start
+      );
+      return {
+        ...segment,
+        mode: drive ? 'driving' as const : segment.mode,
+        drivingSessionId: drive?.id || null,
+      };
+    }
+
+    const candidates: Array<TimelinePlace & { distance: number }> = [
+      ...places
+        .filter((p) => isInsideGeofence(segment.latitude, segment.longitude, p.latitude, p.longitude, p.radius ?? 100))
+        .map((p) => ({
+          type: 'favorite_place' as const,
+          id: p.id,
+          name: p.name,
+          icon: p.icon,
+          distance: calculateDistance(segment.latitude, segment.longitude, p.latitude, p.longitude),
+        })),
+      ...zones
+        .filter((g) => isInsideGeofenceShape(segment.latitude, segment.longitude, g))
+        .map((g) => ({
+          type: 'geofence' as const,
+          id: g.id,
+          name: g.name,
+          icon: g.icon,
+          distance: calculateDistance(segment.latitude, segment.longitude, g.latitude, g.longitude),
+        })),
+    ];
+    candidates.sort((a, b) => a.distance - b.distance);
+    const match = candidates[0];
+
+    return {
+      ...segment,
+      place: match ? { type: match.type, id: match.id, name: match.name, icon: match.icon } : null,
+      // The last stay of a range that includes now is where the child still
+      // is, unless their last point is too old to say so
+      ongoing: isCurrent && index === segments.length - 1 && segment.end.getTime() >= staleBefore,
+    };
+  });
+}
@@ -0,0 +1,22 @@
+import { eq } from 'drizzle-orm';
+import { db, users, families } from '../db';
+import { DEFAULT_TIMEZONE } from '../utils/schedule';
+
+// Timezone used for a user's schedules: their own override, then their
+// family's, then the server default
+export async function getUserTimezone(userId: string): Promise<string> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.id, userId),
+  });
+
+  if (user?.timezone) return user.timezone;
+
+  if (user?.familyId) {
+    const family = await db.query.families.findFirst({
+      where: eq(families.id, user.familyId),
+    });
+    if (family?.timezone) return family.timezone;
+  }
+
+  return DEFAULT_TIMEZONE;
+}
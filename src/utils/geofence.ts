@@ -1,3 +1,5 @@
+import { Schedule, isScheduleActive } from './schedule';
+
 // Haversine formula to calculate distance between two points on Earth
 export function calculateDistance(
   lat1: number,
@@ -31,32 +33,201 @@ export function isInsideGeofence(
   return distance <= radiusMeters;
 }
 
-// Check if geofence is active based on schedule
-export function isGeofenceActiveNow(
-  schedule: { days: number[]; startTime: string; endTime: string } | null
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export const MAX_POLYGON_VERTICES = 100;
+
+// Ray casting point-in-polygon test. Edges are treated as straight lines in
+// lat/lng space, which is accurate enough at geofence scale.
+export function isInsidePolygon(
+  pointLat: number,
+  pointLon: number,
+  polygon: GeoPoint[]
 ): boolean {
-  if (!schedule) return true;
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      (a.latitude > pointLat) !== (b.latitude > pointLat) &&
+      pointLon < ((b.longitude - a.longitude) * (pointLat - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
 
-  const now = new Date();
-  const currentDay = now.getDay(); // 0 = Sunday, 1 = Monday, etc.
-  const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+function samePoint(a: GeoPoint, b: GeoPoint): boolean {
+  return a.latitude === b.latitude && a.longitude === b.longitude;
+}
 
-  // Check if current day is in schedule
-  if (!schedule.days.includes(currentDay)) {
-    return false;
+// Drop the closing vertex of a closed ring
+export function openRing(polygon: GeoPoint[]): GeoPoint[] {
+  if (polygon.length > 1 && samePoint(polygon[0], polygon[polygon.length - 1])) {
+    return polygon.slice(0, -1);
   }
+  return polygon;
+}
 
-  // Check if current time is within schedule
-  return currentTime >= schedule.startTime && currentTime <= schedule.endTime;
+function orientation(p: GeoPoint, q: GeoPoint, r: GeoPoint): number {
+  const value =
+    (q.longitude - p.longitude) * (r.latitude - q.latitude) -
+    (q.latitude - p.latitude) * (r.longitude - q.longitude);
+  if (value === 0) return 0;
+  return value > 0 ? 1 : 2;
+}
+
+function onSegment(p: GeoPoint, q: GeoPoint, r: GeoPoint): boolean {
+  return (
+    q.longitude <= Math.max(p.longitude, r.longitude) &&
+    q.longitude >= Math.min(p.longitude, r.longitude) &&
+    q.latitude <= Math.max(p.latitude, r.latitude) &&
+    q.latitude >= Math.min(p.latitude, r.latitude)
+  );
+}
+
+function segmentsIntersect(p1: GeoPoint, q1: GeoPoint, p2: GeoPoint, q2: GeoPoint): boolean {
+  const o1 = orientation(p1, q1, p2);
+  const o2 = orientation(p1, q1, q2);
+  const o3 = orientation(p2, q2, p1);
+  const o4 = orientation(p2, q2, q1);
+
+  if (o1 !== o2 && o3 !== o4) return true;
+  if (o1 === 0 && onSegment(p1, p2, q1)) return true;
+  if (o2 === 0 && onSegment(p1, q2, q1)) return true;
+  if (o3 === 0 && onSegment(p2, p1, q2)) return true;
+  if (o4 === 0 && onSegment(p2, q1, q2)) return true;
+  return false;
+}
+
+// Validate a polygon ring. Returns an error message, or null if valid.
+export function validatePolygon(polygon: unknown): string | null {
+  if (!Array.isArray(polygon)) {
+    return 'Polygon must be an array of points';
+  }
+
+  for (const point of polygon) {
+    if (
+      typeof point?.latitude !== 'number' || point.latitude < -90 || point.latitude > 90 ||
+      typeof point?.longitude !== 'number' || point.longitude < -180 || point.longitude > 180
+    ) {
+      return 'Each polygon point needs a valid latitude and longitude';
+    }
+  }
+
+  if (polygon.length < 2 || !samePoint(polygon[0], polygon[polygon.length - 1])) {
+    return 'Polygon must be a closed ring (first and last point equal)';
+  }
+
+  const ring = openRing(polygon);
+  if (ring.length < 3) {
+    return 'Polygon needs at least 3 distinct vertices';
+  }
+  if (ring.length > MAX_POLYGON_VERTICES) {
+    return `Polygon can have at most ${MAX_POLYGON_VERTICES} vertices`;
+  }
+
+  // Every pair of non-adjacent edges must be disjoint
+  for (let i = 0; i < ring.length; i++) {
+    const a1 = ring[i];
+    const a2 = ring[(i + 1) % ring.length];
+    if (samePoint(a1, a2)) {
+      return 'Polygon has duplicate consecutive vertices';
+    }
+    for (let j = i + 1; j < ring.length; j++) {
+      const adjacent = j === i + 1 || (i === 0 && j === ring.length - 1);
+      if (adjacent) continue;
+      if (segmentsIntersect(a1, a2, ring[j], ring[(j + 1) % ring.length])) {
+        return 'Polygon must not intersect itself';
+      }
+    }
+  }
+
+  return null;
+}
+
+// Center and enclosing radius of a polygon, stored alongside it so circle-only
+// consumers (maps, reminder clients) still get a sensible approximation
+export function getPolygonBounds(polygon: GeoPoint[]): { latitude: number; longitude: number; radius: number } {
+  const ring = openRing(polygon);
+  const latitude = ring.reduce((sum, p) => sum + p.latitude, 0) / ring.length;
+  const longitude = ring.reduce((sum, p) => sum + p.longitude, 0) / ring.length;
+  const radius = Math.ceil(
+    Math.max(...ring.map((p) => calculateDistance(latitude, longitude, p.latitude, p.longitude)))
+  );
+  return { latitude, longitude, radius };
+}
+
+// Check if a point is inside a geofence of any shape
+export function isInsideGeofenceShape(
+  pointLat: number,
+  pointLon: number,
+  geofence: { type?: 'circle' | 'polygon'; latitude: number; longitude: number; radius: number; polygon?: GeoPoint[] | null }
+): boolean {
+  if (geofence.type === 'polygon' && geofence.polygon) {
+    // Cheap rejection using the enclosing circle first
+    if (!isInsideGeofence(pointLat, pointLon, geofence.latitude, geofence.longitude, geofence.radius)) {
+      return false;
+    }
+    return isInsidePolygon(pointLat, pointLon, openRing(geofence.polygon));
+  }
+  return isInsideGeofence(pointLat, pointLon, geofence.latitude, geofence.longitude, geofence.radius);
+}
+
+// Distance in meters from a point to a segment, using a local equirectangular
+// projection around the point
+function distanceToSegment(point: GeoPoint, a: GeoPoint, b: GeoPoint): number {
+  const metersPerDegLat = 111320;
+  const metersPerDegLon = 111320 * Math.cos(toRad(point.latitude));
+  const ax = (a.longitude - point.longitude) * metersPerDegLon;
+  const ay = (a.latitude - point.latitude) * metersPerDegLat;
+  const bx = (b.longitude - point.longitude) * metersPerDegLon;
+  const by = (b.latitude - point.latitude) * metersPerDegLat;
+
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lengthSquared));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+}
+
+// Signed distance in meters from a point to a geofence boundary:
+// negative inside, positive outside
+export function getBoundaryDistance(
+  pointLat: number,
+  pointLon: number,
+  geofence: { type?: 'circle' | 'polygon'; latitude: number; longitude: number; radius: number; polygon?: GeoPoint[] | null }
+): number {
+  if (geofence.type === 'polygon' && geofence.polygon) {
+    const ring = openRing(geofence.polygon);
+    const point = { latitude: pointLat, longitude: pointLon };
+    let edgeDistance = Infinity;
+    for (let i = 0; i < ring.length; i++) {
+      edgeDistance = Math.min(edgeDistance, distanceToSegment(point, ring[i], ring[(i + 1) % ring.length]));
+    }
+    return isInsidePolygon(pointLat, pointLon, ring) ? -edgeDistance : edgeDistance;
+  }
+  return calculateDistance(pointLat, pointLon, geofence.latitude, geofence.longitude) - geofence.radius;
+}
+
+// Check if geofence is active based on schedule, in the child's timezone
+export function isGeofenceActiveNow(
+  schedule: Schedule | null,
+  timezone?: string,
+  now: Date = new Date()
+): boolean {
+  return isScheduleActive(schedule, timezone, now);
 }
 
 // Get all geofences that contain a point
-export function getContainingGeofences<T extends { latitude: number; longitude: number; radius: number }>(
+export function getContainingGeofences<
+  T extends { type?: 'circle' | 'polygon'; latitude: number; longitude: number; radius: number; polygon?: GeoPoint[] | null }
+>(
   pointLat: number,
   pointLon: number,
   geofences: T[]
 ): T[] {
-  return geofences.filter((geofence) =>
-    isInsideGeofence(pointLat, pointLon, geofence.latitude, geofence.longitude, geofence.radius)
-  );
+  return geofences.filter((geofence) => isInsideGeofenceShape(pointLat, pointLon, geofence));
 }
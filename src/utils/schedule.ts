@@ -0,0 +1,127 @@
+export interface Schedule {
+  days: number[]; // 0 = Sunday, 1 = Monday, etc.
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+}
+
+export const DEFAULT_TIMEZONE = process.env.DEFAULT_TIMEZONE || 'UTC';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function isValidTimezone(timezone: unknown): boolean {
+  if (typeof timezone !== 'string' || timezone.length === 0) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Validate a schedule object. Returns an error message, or null if valid.
+export function validateSchedule(schedule: unknown): string | null {
+  if (schedule === null) return null;
+
+  const candidate = schedule as Partial<Schedule>;
+  if (typeof schedule !== 'object' || !Array.isArray(candidate.days)) {
+    return 'Schedule must have a days array';
+  }
+  if (candidate.days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    return 'Schedule days must be integers 0-6 (0 = Sunday)';
+  }
+  if (typeof candidate.startTime !== 'string' || !TIME_PATTERN.test(candidate.startTime)) {
+    return 'Schedule startTime must be HH:MM';
+  }
+  if (typeof candidate.endTime !== 'string' || !TIME_PATTERN.test(candidate.endTime)) {
+    return 'Schedule endTime must be HH:MM';
+  }
+  return null;
+}
+
+// Wall-clock day of week and HH:MM of an instant in a timezone
+export function getLocalTime(date: Date, timezone: string): { day: number; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    day: weekdays.indexOf(get('weekday')),
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+// Calendar date (YYYY-MM-DD) of an instant in a timezone
+export function getLocalDate(date: Date, timezone: string): string {
+  // en-CA formats dates as YYYY-MM-DD
+  return new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(date);
+}
+
+// Offset of a timezone from UTC at an instant, in milliseconds
+function getTimezoneOffset(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const get = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || '0');
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Instant of local midnight on a calendar date in a timezone
+function getLocalMidnight(date: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  const guess = utcMidnight - getTimezoneOffset(new Date(utcMidnight), timezone);
+  // Re-check in case a DST change falls between the guess and midnight
+  return new Date(utcMidnight - getTimezoneOffset(new Date(guess), timezone));
+}
+
+// Start (inclusive) and end (exclusive) of a calendar date in a timezone
+export function getLocalDayBounds(date: string, timezone: string): { start: Date; end: Date } {
+  const [year, month, day] = date.split('-').map(Number);
+  const next = new Date(Date.UTC(year, month - 1, day + 1)).toISOString().split('T')[0];
+  return {
+    start: getLocalMidnight(date, timezone),
+    end: getLocalMidnight(next, timezone),
+  };
+}
+
+// Check if a schedule is active at an instant in the given timezone. Windows
+// where endTime < startTime run overnight; their days refer to the start day.
+export function isScheduleActive(
+  schedule: Schedule | null,
+  timezone: string = DEFAULT_TIMEZONE,
+  now: Date = new Date()
+): boolean {
+  if (!schedule) return true;
+
+  const { day, time } = getLocalTime(now, timezone);
+
+  if (schedule.startTime <= schedule.endTime) {
+    return schedule.days.includes(day) && time >= schedule.startTime && time <= schedule.endTime;
+  }
+
+  // Overnight: the evening part belongs to today, the morning part to yesterday
+  const previousDay = (day + 6) % 7;
+  if (time >= schedule.startTime) {
+    return schedule.days.includes(day);
+  }
+  if (time <= schedule.endTime) {
+    return schedule.days.includes(previousDay);
+  }
+  return false;
+}
@@ -0,0 +1,94 @@
+import { calculateDistance } from './geofence';
+
+export interface TrackPoint {
+  id: string;
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+}
+
+export interface Stay {
+  keepId: string; // point that becomes the stay
+  latitude: number;
+  longitude: number;
+  start: Date;
+  end: Date;
+  pointIds: string[];
+}
+
+export interface CompactionPlan {
+  stays: Stay[];
+  keepIds: string[]; // moving points that survive thinning (stays excluded)
+  deleteIds: string[];
+}
+
+export const STAY_RADIUS_METERS = 100;
+export const STAY_MIN_DURATION_MS = 5 * 60 * 1000;
+export const THIN_MIN_DISTANCE_METERS = 50;
+export const THIN_MAX_INTERVAL_MS = 10 * 60 * 1000;
+
+// Length of the run of points starting at `start` that stays within the stay
+// radius of its running centroid
+export function clusterLength(points: Omit<TrackPoint, 'id'>[], start: number): number {
+  let latSum = points[start].latitude;
+  let lonSum = points[start].longitude;
+  let end = start + 1;
+
+  while (end < points.length) {
+    const count = end - start;
+    const distance = calculateDistance(latSum / count, lonSum / count, points[end].latitude, points[end].longitude);
+    if (distance > STAY_RADIUS_METERS) break;
+    latSum += points[end].latitude;
+    lonSum += points[end].longitude;
+    end++;
+  }
+
+  return end - start;
+}
+
+// Plan how to compact a time-ordered track: stationary clusters collapse into
+// a single stay point, moving segments keep one point per distance/time step
+export function planCompaction(points: TrackPoint[]): CompactionPlan {
+  const stays: Stay[] = [];
+  const keepIds: string[] = [];
+  const deleteIds: string[] = [];
+  let lastKept: TrackPoint | null = null;
+
+  let i = 0;
+  while (i < points.length) {
+    const length = clusterLength(points, i);
+    const cluster = points.slice(i, i + length);
+    const duration = cluster[cluster.length - 1].timestamp.getTime() - cluster[0].timestamp.getTime();
+
+    if (length > 1 && duration >= STAY_MIN_DURATION_MS) {
+      stays.push({
+        keepId: cluster[0].id,
+        latitude: cluster.reduce((sum, p) => sum + p.latitude, 0) / length,
+        longitude: cluster.reduce((sum, p) => sum + p.longitude, 0) / length,
+        start: cluster[0].timestamp,
+        end: cluster[length - 1].timestamp,
+        pointIds: cluster.map((p) => p.id),
+      });
+      deleteIds.push(...cluster.slice(1).map((p) => p.id));
+      lastKept = cluster[length - 1];
+      i += length;
+      continue;
+    }
+
+    const point = points[i];
+    const isLast = i === points.length - 1;
+    const farEnough = !lastKept ||
+      calculateDistance(lastKept.latitude, lastKept.longitude, point.latitude, point.longitude) >= THIN_MIN_DISTANCE_METERS;
+    const longEnough = !lastKept || point.timestamp.getTime() - lastKept.timestamp.getTime() >= THIN_MAX_INTERVAL_MS;
+
+    if (isLast || farEnough || longEnough) {
+      keepIds.push(point.id);
+      lastKept = point;
+    } else {
+      deleteIds.push(point.id);
+    }
+    i++;
+  }
+
+  return { stays, keepIds, deleteIds };
+}
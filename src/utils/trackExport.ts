@@ -0,0 +1,180 @@
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['gpx', 'kml', 'geojson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json',
+};
+
+export interface ExportPoint {
+  latitude: number;
+  longitude: number;
+  altitude: number | null;
+  accuracy: number | null;
+  speed: number | null;
+  batteryLevel: number | null;
+  isCharging: boolean | null;
+  timestamp: Date;
+}
+
+export interface ExportTrack {
+  name: string;
+  type: 'locations' | 'driving';
+  segments: ExportPoint[][]; // contiguous runs of points
+  properties?: Record<string, string | number | null>;
+}
+
+// Namespace for the per-point extensions in GPX
+const GPX_EXTENSION_NS = 'https://praesidium.app/xmlschemas/track/1';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function optionalTag(tag: string, value: number | boolean | null): string {
+  return value === null || value === undefined ? '' : `<${tag}>${value}</${tag}>`;
+}
+
+export function renderGpx(name: string, tracks: ExportTrack[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="Praesidium" xmlns="http://www.topografix.com/GPX/1/1" xmlns:pr="${GPX_EXTENSION_NS}">`,
+    `  <metadata><name>${escapeXml(name)}</name></metadata>`,
+  ];
+
+  for (const track of tracks) {
+    lines.push('  <trk>');
+    lines.push(`    <name>${escapeXml(track.name)}</name>`);
+    lines.push(`    <type>${track.type}</type>`);
+    for (const segment of track.segments) {
+      lines.push('    <trkseg>');
+      for (const p of segment) {
+        const extensions = [
+          optionalTag('pr:speed', p.speed),
+          optionalTag('pr:accuracy', p.accuracy),
+          optionalTag('pr:battery', p.batteryLevel),
+          optionalTag('pr:charging', p.isCharging),
+        ].join('');
+        lines.push(
+          `      <trkpt lat="${p.latitude}" lon="${p.longitude}">` +
+          optionalTag('ele', p.altitude) +
+          `<time>${p.timestamp.toISOString()}</time>` +
+          (extensions ? `<extensions>${extensions}</extensions>` : '') +
+          '</trkpt>'
+        );
+      }
+      lines.push('    </trkseg>');
+    }
+    lines.push('  </trk>');
+  }
+
+  lines.push('</gpx>');
+  return lines.join('\n');
+}
+
+const KML_FIELDS: Array<{ name: string; type: string; value: (p: ExportPoint) => number | boolean | null }> = [
+  { name: 'speed', type: 'float', value: (p) => p.speed },
+  { name: 'accuracy', type: 'float', value: (p) => p.accuracy },
+  { name: 'battery', type: 'int', value: (p) => p.batteryLevel },
+  { name: 'charging', type: 'bool', value: (p) => p.isCharging },
+];
+
+// KML tracks use gx:Track so every coordinate keeps its timestamp; per-point
+// extensions go in gx:SimpleArrayData
+export function renderKml(name: string, tracks: ExportTrack[]): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2" xmlns:gx="http://www.google.com/kml/ext/2.2">',
+    '<Document>',
+    `  <name>${escapeXml(name)}</name>`,
+    '  <Schema id="trackData">',
+    ...KML_FIELDS.map((f) => `    <gx:SimpleArrayField name="${f.name}" type="${f.type}"/>`),
+    '  </Schema>',
+  ];
+
+  for (const track of tracks) {
+    lines.push('  <Placemark>');
+    lines.push(`    <name>${escapeXml(track.name)}</name>`);
+    if (track.properties) {
+      lines.push('    <ExtendedData>');
+      for (const [key, value] of Object.entries(track.properties)) {
+        lines.push(`      <Data name="${escapeXml(key)}"><value>${value === null ? '' : escapeXml(String(value))}</value></Data>`);
+      }
+      lines.push('    </ExtendedData>');
+    }
+    lines.push('    <gx:MultiTrack>');
+    for (const segment of track.segments) {
+      lines.push('      <gx:Track>');
+      for (const p of segment) {
+        lines.push(`        <when>${p.timestamp.toISOString()}</when>`);
+      }
+      for (const p of segment) {
+        lines.push(`        <gx:coord>${p.longitude} ${p.latitude} ${p.altitude ?? 0}</gx:coord>`);
+      }
+      lines.push('        <ExtendedData><SchemaData schemaUrl="#trackData">');
+      for (const field of KML_FIELDS) {
+        lines.push(`          <gx:SimpleArrayData name="${field.name}">`);
+        for (const p of segment) {
+          const value = field.value(p);
+          lines.push(`            <gx:value>${value === null ? '' : value}</gx:value>`);
+        }
+        lines.push('          </gx:SimpleArrayData>');
+      }
+      lines.push('        </SchemaData></ExtendedData>');
+      lines.push('      </gx:Track>');
+    }
+    lines.push('    </gx:MultiTrack>');
+    lines.push('  </Placemark>');
+  }
+
+  lines.push('</Document>');
+  lines.push('</kml>');
+  return lines.join('\n');
+}
+
+// GeoJSON has no per-coordinate properties, so timestamps and extensions are
+// parallel arrays alongside the coordinates (the `coordTimes` convention)
+export function renderGeoJson(name: string, tracks: ExportTrack[]): string {
+  const position = (p: ExportPoint) =>
+    p.altitude === null ? [p.longitude, p.latitude] : [p.longitude, p.latitude, p.altitude];
+
+  return JSON.stringify({
+    type: 'FeatureCollection',
+    name,
+    features: tracks.map((track) => ({
+      type: 'Feature',
+      geometry: {
+        type: 'MultiLineString',
+        coordinates: track.segments.map((segment) => segment.map(position)),
+      },
+      properties: {
+        name: track.name,
+        type: track.type,
+        ...track.properties,
+        coordTimes: track.segments.map((segment) => segment.map((p) => p.timestamp.toISOString())),
+        speeds: track.segments.map((segment) => segment.map((p) => p.speed)),
+        accuracies: track.segments.map((segment) => segment.map((p) => p.accuracy)),
+        batteryLevels: track.segments.map((segment) => segment.map((p) => p.batteryLevel)),
+        charging: track.segments.map((segment) => segment.map((p) => p.isCharging)),
+      },
+    })),
+  });
+}
+
+export function renderTracks(format: ExportFormat, name: string, tracks: ExportTrack[]): string {
+  switch (format) {
+    case 'gpx':
+      return renderGpx(name, tracks);
+    case 'kml':
+      return renderKml(name, tracks);
+    case 'geojson':
+      return renderGeoJson(name, tracks);
+  }
+}
@@ -0,0 +1,153 @@
+import { calculateDistance } from './geofence';
+import { clusterLength, STAY_RADIUS_METERS, STAY_MIN_DURATION_MS } from './trackCompaction';
+
+export interface SegmentPoint {
+  latitude: number;
+  longitude: number;
+  timestamp: Date;
+  speed?: number | null; // m/s as reported by the device
+  dwellTime?: number | null; // seconds; set on compacted stay points
+}
+
+export interface StaySegment {
+  type: 'stay';
+  start: Date;
+  end: Date;
+  latitude: number;
+  longitude: number;
+  pointCount: number;
+}
+
+export interface TripSegment {
+  type: 'trip';
+  mode: 'walking' | 'driving';
+  start: Date;
+  end: Date;
+  distanceMeters: number;
+  averageSpeed: number; // m/s
+  maxSpeed: number; // m/s
+  path: Array<{ latitude: number; longitude: number; timestamp: Date }>;
+}
+
+export type TrackSegment = StaySegment | TripSegment;
+
+// Average speed above which a trip counts as driving (~20 km/h)
+export const DRIVING_SPEED_MPS = 5.5;
+
+// Reported speed that on its own marks a trip as driving (~40 km/h)
+export const DRIVING_MAX_SPEED_MPS = 11;
+
+// Moving points between two stays at the same place that still count as
+// GPS jitter rather than a trip away and back
+const JITTER_MAX_POINTS = 2;
+const JITTER_MAX_GAP_MS = 2 * 60 * 1000;
+
+function endOf(point: SegmentPoint): Date {
+  return new Date(point.timestamp.getTime() + (point.dwellTime || 0) * 1000);
+}
+
+function pathDistance(path: Array<{ latitude: number; longitude: number }>): number {
+  let distance = 0;
+  for (let i = 1; i < path.length; i++) {
+    distance += calculateDistance(path[i - 1].latitude, path[i - 1].longitude, path[i].latitude, path[i].longitude);
+  }
+  return distance;
+}
+
+// Whether the points between two stays could be one visit split by GPS
+// jitter: they never left the stay radius, or were a brief blip
+function isJitter(moving: SegmentPoint[], previous: StaySegment, next: StaySegment): boolean {
+  const insideRadius = moving.every((p) =>
+    calculateDistance(previous.latitude, previous.longitude, p.latitude, p.longitude) <= STAY_RADIUS_METERS
+  );
+  if (insideRadius) return true;
+
+  const gap = next.start.getTime() - previous.end.getTime();
+  return moving.length <= JITTER_MAX_POINTS && gap <= JITTER_MAX_GAP_MS;
+}
+
+function buildTrip(points: SegmentPoint[], previous: StaySegment | null, next: SegmentPoint | null): TripSegment {
+  // A trip runs from the end of the previous stay to the first point of the next
+  const path = [
+    ...(previous ? [{ latitude: previous.latitude, longitude: previous.longitude, timestamp: previous.end }] : []),
+    ...points.map((p) => ({ latitude: p.latitude, longitude: p.longitude, timestamp: p.timestamp })),
+    ...(next ? [{ latitude: next.latitude, longitude: next.longitude, timestamp: next.timestamp }] : []),
+  ];
+
+  const start = path[0].timestamp;
+  const end = path[path.length - 1].timestamp;
+  const distanceMeters = Math.round(pathDistance(path));
+  const seconds = (end.getTime() - start.getTime()) / 1000;
+  const averageSpeed = seconds > 0 ? distanceMeters / seconds : 0;
+  const maxSpeed = Math.max(0, ...points.map((p) => p.speed || 0));
+
+  return {
+    type: 'trip',
+    mode: averageSpeed >= DRIVING_SPEED_MPS || maxSpeed >= DRIVING_MAX_SPEED_MPS ? 'driving' : 'walking',
+    start,
+    end,
+    distanceMeters,
+    averageSpeed,
+    maxSpeed,
+    path,
+  };
+}
+
+// Split a time-ordered track into stays and the trips between them. Stays
+// use the same clustering as retention compaction, so compacted history
+// (single points carrying a dwell time) segments the same way as raw points.
+export function segmentTrack(points: SegmentPoint[]): TrackSegment[] {
+  const segments: TrackSegment[] = [];
+  let moving: SegmentPoint[] = [];
+  let lastStay: StaySegment | null = null;
+
+  let i = 0;
+  while (i < points.length) {
+    const length = clusterLength(points, i);
+    const cluster = points.slice(i, i + length);
+    const end = endOf(cluster[length - 1]);
+    const duration = end.getTime() - cluster[0].timestamp.getTime();
+
+    if (duration < STAY_MIN_DURATION_MS) {
+      moving.push(points[i]);
+      i++;
+      continue;
+    }
+
+    const stay: StaySegment = {
+      type: 'stay',
+      start: cluster[0].timestamp,
+      end,
+      latitude: cluster.reduce((sum, p) => sum + p.latitude, 0) / length,
+      longitude: cluster.reduce((sum, p) => sum + p.longitude, 0) / length,
+      pointCount: length,
+    };
+
+    const returnedToSamePlace = lastStay &&
+      calculateDistance(lastStay.latitude, lastStay.longitude, stay.latitude, stay.longitude) <= STAY_RADIUS_METERS;
+
+    if (lastStay && returnedToSamePlace && isJitter(moving, lastStay, stay)) {
+      // GPS jitter split one visit in two; merge instead of reporting a trip
+      const total = lastStay.pointCount + stay.pointCount;
+      lastStay.latitude = (lastStay.latitude * lastStay.pointCount + stay.latitude * stay.pointCount) / total;
+      lastStay.longitude = (lastStay.longitude * lastStay.pointCount + stay.longitude * stay.pointCount) / total;
+      lastStay.pointCount = total + moving.length;
+      lastStay.end = stay.end;
+    } else {
+      if (moving.length > 0 || lastStay) {
+        segments.push(buildTrip(moving, lastStay, cluster[0]));
+      }
+      segments.push(stay);
+      lastStay = stay;
+    }
+
+    moving = [];
+    i += length;
+  }
+
+  if (moving.length > 0) {
+    segments.push(buildTrip(moving, lastStay, null));
+  }
+
+  return segments;
+}